@@ -1,13 +1,28 @@
 import { Command } from "commander";
+import { createInterface } from "node:readline/promises";
 import chalk from "chalk";
 import { 
   TaskState, 
   Task, 
-  Project
+  Project,
+  TaskSortField,
+  ProjectSortField,
+  SortOrder,
+  TaskPriority,
+  OrderingPolicy,
+  TASK_SORT_FIELDS,
+  PROJECT_SORT_FIELDS,
+  TASK_PRIORITIES,
+  ORDERING_POLICIES
 } from "../types/data.js";
-import { TaskManager } from "../server/TaskManager.js";
+import { TaskManager, TASK_FILE_PATH } from "../server/TaskManager.js";
+import { JsonFileTaskStore } from "../server/JsonFileTaskStore.js";
+import { FileSystemService } from "../server/FileSystemService.js";
+import { SqliteTaskStore, getSqlitePath } from "../server/SqliteTaskStore.js";
+import { getProviderNames } from "../server/llm.js";
+import { ProjectCreationSuccessData } from "../types/response.js";
 import { formatCliError } from "./errors.js";
-import { formatProjectsList, formatTaskProgressTable } from "./taskFormattingUtils.js";
+import { formatProjectsList, formatTaskHistory, formatTaskProgressTable } from "./taskFormattingUtils.js";
 
 const program = new Command();
 
@@ -28,7 +43,7 @@ program.hook('preAction', (thisCommand, actionCommand) => {
   const resolvedPath = cliFilePath || envFilePath || undefined;
 
   try {
-    taskManager = new TaskManager(resolvedPath);
+    taskManager = new TaskManager(resolvedPath, { actor: "human" });
   } catch (error) {
     console.error(chalk.red(formatCliError(error as Error)));
     process.exit(1);
@@ -129,6 +144,29 @@ program
     }
   });
 
+program
+  .command("reject")
+  .description("Reject a completed task and send it back with feedback")
+  .argument("<projectId>", "Project ID")
+  .argument("<taskId>", "Task ID")
+  .requiredOption('-r, --reason <text>', 'Feedback explaining why the task was rejected')
+  .action(async (projectId, taskId, options) => {
+    try {
+      console.log(chalk.blue(`Attempting to reject task ${chalk.bold(taskId)} in project ${chalk.bold(projectId)}...`));
+
+      const result = await taskManager.rejectTaskCompletion(projectId, taskId, options.reason);
+      console.log(chalk.yellow(`↩ Task ${chalk.bold(taskId)} in project ${chalk.bold(projectId)} has been rejected and moved back to in progress.`));
+
+      console.log(chalk.cyan('\n📋 Task details:'));
+      console.log(`  - ${chalk.bold('Title:')} ${result.task.title}`);
+      console.log(`  - ${chalk.bold('Completed details:')} ${result.task.completedDetails || chalk.gray("None")}`);
+      console.log(`  - ${chalk.bold('Reviewer feedback:')} ${result.task.reviewFeedback}`);
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
 program
   .command("finalize")
   .description("Mark a project as complete")
@@ -209,11 +247,152 @@ program
     }
   });
 
+program
+  .command("update-project")
+  .description("Update a project's settings")
+  .argument("<projectId>", "Project ID")
+  .option('--auto-approve', 'Automatically approve tasks when they are marked as done')
+  .option('--no-auto-approve', 'Require manual approval of completed tasks')
+  .option('--ordering <policy>', `Order to work through tasks in (${ORDERING_POLICIES.join(', ')})`)
+  .action(async (projectId, options) => {
+    try {
+      if (options.autoApprove === undefined && options.ordering === undefined) {
+        console.error(chalk.red('No changes specified.'));
+        console.log(chalk.yellow('Use --auto-approve or --no-auto-approve to change the project\'s approval mode, or --ordering to change the order of its tasks.'));
+        process.exit(1);
+      }
+      if (options.ordering !== undefined && !ORDERING_POLICIES.includes(options.ordering)) {
+        console.error(chalk.red(`Invalid ordering policy: ${options.ordering}`));
+        console.log(chalk.yellow(`Valid ordering policies are: ${ORDERING_POLICIES.join(', ')}`));
+        process.exit(1);
+      }
+
+      const result = await taskManager.updateProject(projectId, {
+        autoApprove: options.autoApprove,
+        orderingPolicy: options.ordering as OrderingPolicy | undefined,
+      });
+      console.log(chalk.green(`✅ ${result.message}`));
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("update-task")
+  .description("Update a task's status or details")
+  .argument("<projectId>", "Project ID")
+  .argument("<taskId>", "Task ID")
+  .option('-s, --status <status>', "New status (not started, in progress, done)")
+  .option('-d, --completed-details <text>', "Details about the task completion (required when status is done)")
+  .option('--title <title>', "New title for the task")
+  .option('--description <text>', "New description for the task")
+  .option('--priority <priority>', `New priority for the task (${TASK_PRIORITIES.join(', ')})`)
+  .action(async (projectId, taskId, options) => {
+    try {
+      const validStatuses = ["not started", "in progress", "done"] as const;
+      if (options.status && !validStatuses.includes(options.status)) {
+        console.error(chalk.red(`Invalid status value: ${options.status}`));
+        console.log(chalk.yellow(`Valid statuses are: ${validStatuses.join(', ')}`));
+        process.exit(1);
+      }
+      if (options.priority && !TASK_PRIORITIES.includes(options.priority)) {
+        console.error(chalk.red(`Invalid priority value: ${options.priority}`));
+        console.log(chalk.yellow(`Valid priorities are: ${TASK_PRIORITIES.join(', ')}`));
+        process.exit(1);
+      }
+
+      const updatedTask = await taskManager.updateTask(projectId, taskId, {
+        status: options.status as Task["status"] | undefined,
+        completedDetails: options.completedDetails,
+        title: options.title,
+        description: options.description,
+        priority: options.priority as TaskPriority | undefined,
+      });
+
+      console.log(chalk.green(`✅ Task ${chalk.bold(taskId)} in project ${chalk.bold(projectId)} has been updated.`));
+      console.log(`  - ${chalk.bold('Title:')} ${updatedTask.title}`);
+      console.log(`  - ${chalk.bold('Status:')} ${updatedTask.status}`);
+      console.log(`  - ${chalk.bold('Approved:')} ${updatedTask.approved ? chalk.green('Yes ✓') : chalk.red('No ✗')}`);
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("move-task")
+  .description("Move a task before or after another task in its project, or to another project")
+  .argument("<projectId>", "Project ID")
+  .argument("<taskId>", "ID of the task to move")
+  .option('--before <taskId>', "Place the task right before this task")
+  .option('--after <taskId>', "Place the task right after this task")
+  .option('--to <projectId>', "Move the task to the end of this project")
+  .action(async (projectId, taskId, options) => {
+    try {
+      const placements = [options.before, options.after, options.to].filter((value) => value !== undefined);
+      if (placements.length !== 1) {
+        console.error(chalk.red('Specify exactly one of --before, --after or --to.'));
+        process.exit(1);
+      }
+
+      if (options.to !== undefined) {
+        const result = await taskManager.moveTask(projectId, taskId, options.to);
+        console.log(chalk.green(`✅ ${result.message}`));
+        return;
+      }
+
+      const targetId: string = options.before ?? options.after;
+      if (targetId === taskId) {
+        console.error(chalk.red('A task cannot be moved relative to itself.'));
+        process.exit(1);
+      }
+
+      const project = await taskManager.readProject(projectId);
+      const missingId = [taskId, targetId].find((id) => !project.tasks.some((t) => t.id === id));
+      if (missingId) {
+        console.error(chalk.red(`Task ${missingId} not found in project ${projectId}.`));
+        process.exit(1);
+      }
+
+      // Build the new order from the current one, then let the task manager validate it
+      const taskIds = project.tasks.map((t) => t.id).filter((id) => id !== taskId);
+      const targetIndex = taskIds.indexOf(targetId);
+      taskIds.splice(options.before !== undefined ? targetIndex : targetIndex + 1, 0, taskId);
+
+      const result = await taskManager.reorderTasks(projectId, taskIds);
+      console.log(chalk.green(`✅ ${result.message}`));
+      console.log(chalk.cyan('\n📋 New task order:'));
+      console.log(`  ${result.taskIds.join(' → ')}`);
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("copy-task")
+  .description("Copy a task, with its details and history, to another project")
+  .argument("<projectId>", "Project ID")
+  .argument("<taskId>", "ID of the task to copy")
+  .requiredOption('--to <projectId>', "Project to add the copy to")
+  .action(async (projectId, taskId, options) => {
+    try {
+      const result = await taskManager.copyTask(projectId, taskId, options.to);
+      console.log(chalk.green(`✅ ${result.message}`));
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
 program
   .command("list")
   .description("List project summaries, or list tasks for a specific project")
   .option('-p, --project <projectId>', 'Show details and tasks for a specific project')
   .option('-s, --state <state>', "Filter by task/project state (open, pending_approval, completed, all)")
+  .option('--sort <field>', "Sort by a timestamp (tasks: createdAt, updatedAt, startedAt, completedAt, approvedAt; projects: createdAt, updatedAt, completedAt)")
+  .option('--order <order>', "Sort direction when --sort is given (asc, desc)", 'asc')
   .action(async (options) => {
     try {
       // Validate state option if provided
@@ -226,21 +405,33 @@ program
       }
       const filterState = (stateOption === 'all' || !stateOption) ? undefined : stateOption as TaskState;
 
+      // Validate sort options; the valid fields depend on whether tasks or projects are listed
+      const validSortFields: readonly string[] = options.project ? TASK_SORT_FIELDS : PROJECT_SORT_FIELDS;
+      if (options.sort && !validSortFields.includes(options.sort)) {
+        console.error(chalk.red(`Invalid sort field: ${options.sort}`));
+        console.log(chalk.yellow(`Valid sort fields are: ${validSortFields.join(', ')}`));
+        process.exit(1);
+      }
+      if (options.order !== 'asc' && options.order !== 'desc') {
+        console.error(chalk.red(`Invalid sort order: ${options.order}`));
+        console.log(chalk.yellow(`Valid sort orders are: asc, desc`));
+        process.exit(1);
+      }
+      const sortOrder = options.order as SortOrder;
+
       if (options.project) {
         // Show details for a specific project
         const projectId = options.project;
         try {
           const project = await taskManager.readProject(projectId);
 
-          // Filter tasks based on state if provided
-          const tasksToList = filterState
-            ? project.tasks.filter((task: Task) => {
-                if (filterState === 'open') return !task.approved;
-                if (filterState === 'pending_approval') return task.status === 'done' && !task.approved;
-                if (filterState === 'completed') return task.status === 'done' && task.approved;
-                return true; // Should not happen
-              })
-            : project.tasks;
+          // Filter and sort tasks based on the options provided
+          const { tasks: tasksToList } = await taskManager.listTasks(
+            projectId,
+            filterState,
+            options.sort as TaskSortField | undefined,
+            sortOrder
+          );
 
           // Use the formatter for the progress table - it now includes the header
           const projectForTableDisplay = { ...project, tasks: tasksToList };
@@ -258,7 +449,11 @@ program
         }
       } else {
         // List all projects, potentially filtered
-        const projects = await taskManager.listProjects(filterState);
+        const projects = await taskManager.listProjects(
+          filterState,
+          options.sort as ProjectSortField | undefined,
+          sortOrder
+        );
 
         if (projects.projects.length === 0) {
           console.log(chalk.yellow(`No projects found${filterState ? ` matching state '${filterState}'` : ''}.`));
@@ -277,24 +472,61 @@ program
     }
   });
 
+program
+  .command("history")
+  .description("Show the audit history of a project's tasks, or of a single task")
+  .argument("<projectId>", "Project ID")
+  .argument("[taskId]", "Task ID (omit to show the history of every task in the project)")
+  .action(async (projectId, taskId) => {
+    try {
+      const history = await taskManager.readTaskHistory(projectId, taskId);
+      console.log(chalk.cyan(`\n📜 History for ${taskId ? `task ${chalk.bold(taskId)} in ` : ''}project ${chalk.bold(projectId)}:\n`));
+      console.log(formatTaskHistory(history.events));
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
 program
   .command("generate-plan")
   .description("Generate a project plan using an LLM")
   .requiredOption("--prompt <text>", "Prompt text to feed to the LLM")
   .option("--model <model>", "LLM model to use", "gpt-4-turbo")
-  .option("--provider <provider>", "LLM provider to use (openai, google, or deepseek)", "openai")
+  .option("--provider <provider>", `LLM provider to use (${getProviderNames().join(", ")})`, "openai")
   .option("--attachment <file>", "File to attach as context (can be specified multiple times)", collect, [])
+  .option("--dry-run", "Show the generated plan and ask for confirmation before creating the project")
   .action(async (options) => {    
     try {
       console.log(chalk.blue(`Generating project plan from prompt...`));
 
       // Pass attachment filenames directly to the server
-      const result = await taskManager.generateProjectPlan({
+      const generationOptions = {
         prompt: options.prompt,
         provider: options.provider,
         model: options.model,
         attachments: options.attachment
-      });
+      };
+
+      let result: ProjectCreationSuccessData;
+      if (options.dryRun) {
+        const preview = await taskManager.previewProjectPlan(generationOptions);
+        console.log(chalk.cyan('\n📋 Proposed plan:'));
+        console.log(`  ${preview.projectPlan}`);
+        console.log(chalk.cyan('\n📝 Proposed tasks:'));
+        preview.tasks.forEach((task, index) => {
+          console.log(`\n  ${chalk.bold(`${index + 1}.`)} ${task.title}`);
+          console.log(`    Description: ${task.description}`);
+        });
+
+        if (!(await confirm('\nCreate this project? (y/N) '))) {
+          console.log(chalk.yellow('Project not created.'));
+          return;
+        }
+        result = await taskManager.acceptGeneratedPlan(preview.token);
+      } else {
+        result = await taskManager.generateProjectPlan(generationOptions);
+      }
 
       // Display the results
       console.log(chalk.green(`✅ Project plan generated successfully!`));
@@ -318,10 +550,117 @@ program
     }
   });
 
+program
+  .command("decompose")
+  .description("Break a task down into smaller tasks using an LLM")
+  .argument("<projectId>", "Project ID")
+  .argument("<taskId>", "ID of the task to decompose")
+  .option("--model <model>", "LLM model to use", "gpt-4-turbo")
+  .option("--provider <provider>", `LLM provider to use (${getProviderNames().join(", ")})`, "openai")
+  .option("--replace", "Replace the task with the generated tasks instead of adding them as subtasks")
+  .action(async (projectId, taskId, options) => {
+    try {
+      console.log(chalk.blue(`Decomposing task ${taskId}...`));
+
+      const result = await taskManager.decomposeTask({
+        projectId,
+        taskId,
+        provider: options.provider,
+        model: options.model,
+        mode: options.replace ? "replace" : "subtasks",
+      });
+
+      console.log(chalk.green(`✅ ${result.message}`));
+      console.log(chalk.cyan('\n📝 New tasks:'));
+      result.newTasks.forEach((task) => {
+        console.log(`\n  ${chalk.bold(task.id)}:`);
+        console.log(`    Title: ${task.title}`);
+        console.log(`    Description: ${task.description}`);
+      });
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("migrate")
+  .description("Upgrade the tasks JSON file to the current schema version, keeping a backup of the original")
+  .option("--dry-run", "Only show which migrations would be applied")
+  .action(async (options) => {
+    try {
+      const jsonPath = program.opts().filePath || TASK_FILE_PATH;
+      const report = await new FileSystemService(jsonPath).migrateTasksFile(options.dryRun === true);
+
+      if (report.applied.length === 0) {
+        console.log(chalk.green(`Tasks file ${report.filePath} is already at schema version ${report.toVersion}.`));
+        return;
+      }
+
+      console.log(chalk.cyan(
+        `${report.dryRun ? 'Would migrate' : 'Migrated'} ${report.filePath} from schema version ${report.fromVersion} to ${report.toVersion}:`
+      ));
+      report.applied.forEach((migration) => console.log(`  - ${migration}`));
+      if (report.dryRun) {
+        console.log(chalk.yellow(`\nDry run: nothing was written. Run without --dry-run to apply.`));
+      } else if (report.backupPath) {
+        console.log(chalk.green(`\n✅ Original file backed up to ${report.backupPath}`));
+      }
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("migrate-to-sqlite")
+  .description("Import the tasks JSON file into a SQLite database for use with TASK_MANAGER_STORE=sqlite")
+  .option("--db <path>", "Path of the SQLite database (defaults to TASK_MANAGER_SQLITE_PATH, or the tasks file path with a .db extension)")
+  .option("--force", "Replace any data already in the database")
+  .action(async (options) => {
+    try {
+      const jsonPath = program.opts().filePath || TASK_FILE_PATH;
+      const dbPath = options.db || getSqlitePath(jsonPath);
+
+      const data = await new JsonFileTaskStore(jsonPath).load();
+      const sqliteStore = new SqliteTaskStore(dbPath);
+      try {
+        const existing = await sqliteStore.load();
+        if (existing.projects.length > 0 && !options.force) {
+          console.error(chalk.red(`Database ${chalk.bold(dbPath)} already contains ${existing.projects.length} project(s).`));
+          console.log(chalk.yellow(`Use --force to replace them with the contents of ${jsonPath}.`));
+          process.exit(1);
+        }
+        await sqliteStore.save(data);
+      } finally {
+        sqliteStore.close();
+      }
+
+      const taskCount = data.projects.reduce((count, p) => count + p.tasks.length, 0);
+      console.log(chalk.green(`✅ Imported ${data.projects.length} project(s) and ${taskCount} task(s) from ${jsonPath} into ${dbPath}.`));
+      console.log(chalk.cyan(`Set TASK_MANAGER_STORE=sqlite${options.db ? ` and TASK_MANAGER_SQLITE_PATH=${dbPath}` : ''} for both the MCP server and the CLI to use it.`));
+    } catch (error) {
+      console.error(chalk.red(formatCliError(error as Error)));
+      process.exit(1);
+    }
+  });
+
 // Helper function for collecting multiple values for the same option
 function collect(value: string, previous: string[]) {
   return previous.concat([value]);
 }
 
+// Asks a yes/no question; anything but "y" or "yes", including closed input, counts as no
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const closed = new Promise<string>((resolve) => rl.once("close", () => resolve("")));
+  try {
+    const answer = await Promise.race([rl.question(question), closed]);
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
+
 // Export program for testing purposes
 export { program };
\ No newline at end of file
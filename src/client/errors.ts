@@ -8,7 +8,14 @@ export function formatCliError(error: Error): string {
   if (error instanceof AppError) {
     let details = '';
     if (error.details) {
-      const detailsStr = typeof error.details === 'string' ? error.details : String(error.details);
+      let detailsStr: string;
+      if (typeof error.details === 'string') {
+        detailsStr = error.details;
+      } else if (error.details instanceof Error) {
+        detailsStr = String(error.details);
+      } else {
+        detailsStr = JSON.stringify(error.details);
+      }
       details = `\n-> Details: ${detailsStr.replace(/^AppError:\s*/, '')}`;
     }
     return `[${error.code}] ${error.message}${details}`;
@@ -1,7 +1,76 @@
 import Table from 'cli-table3'; // Import the library
 import chalk from 'chalk'; // Import chalk for consistent styling
 import { ListProjectsSuccessData } from "../types/response.js";
-import { Project } from "../types/data.js";
+import { Project, Task, TaskHistoryEvent, TaskPriority } from "../types/data.js";
+
+/**
+ * Formats the time elapsed since an ISO timestamp as a compact age (e.g. "45s", "12m", "3h", "5d").
+ * @param timestamp - The ISO 8601 timestamp, if known.
+ * @param now - The reference time in milliseconds, defaults to the current time.
+ * @returns The age, or "-" when the timestamp is missing or invalid.
+ */
+export function formatAge(timestamp: string | undefined, now: number = Date.now()): string {
+  const time = timestamp ? Date.parse(timestamp) : NaN;
+  if (Number.isNaN(time)) return '-';
+
+  const seconds = Math.max(0, Math.floor((now - time) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Returns how long a task has been in its current status.
+ */
+function formatTaskAge(task: Task): string {
+  switch (task.status) {
+    case "in progress":
+      return formatAge(task.startedAt);
+    case "done":
+      return formatAge(task.completedAt);
+    default:
+      return formatAge(task.createdAt);
+  }
+}
+
+/**
+ * Formats a task priority, highlighting the urgent ones.
+ */
+function formatPriority(priority: TaskPriority = "normal"): string {
+  switch (priority) {
+    case "critical":
+      return chalk.red(priority);
+    case "high":
+      return chalk.yellow(priority);
+    case "low":
+      return chalk.dim(priority);
+    default:
+      return priority;
+  }
+}
+
+/**
+ * Orders tasks as a tree, each parent followed by its subtasks, keeping the
+ * given order among siblings. Tasks whose parent is not in the list are shown
+ * at the top level.
+ */
+function arrangeTaskTree(tasks: Task[]): Array<{ task: Task; depth: number }> {
+  const ids = new Set(tasks.map((t) => t.id));
+  const rows: Array<{ task: Task; depth: number }> = [];
+  const addWithSubtasks = (task: Task, depth: number) => {
+    rows.push({ task, depth });
+    for (const subtask of tasks.filter((t) => t.parentId === task.id)) {
+      addWithSubtasks(subtask, depth + 1);
+    }
+  };
+  for (const task of tasks.filter((t) => !t.parentId || !ids.has(t.parentId))) {
+    addWithSubtasks(task, 0);
+  }
+  return rows;
+}
 
 /**
  * Formats the project details and a progress table for its tasks using cli-table3.
@@ -18,19 +87,31 @@ export function formatTaskProgressTable(project: Project | undefined): string {
     header += `  - ${chalk.bold('Project Plan:')} ${project.projectPlan}\n`;
   }
   header += `  - ${chalk.bold('Status:')} ${project.completed ? chalk.green('Completed ✓') : chalk.yellow('In Progress')}\n`;
+  if (project.autoApprove) {
+    header += `  - ${chalk.bold('Auto-approve:')} ${chalk.green('Enabled')}\n`;
+  }
+  if (project.orderingPolicy && project.orderingPolicy !== "sequence") {
+    header += `  - ${chalk.bold('Ordering:')} ${project.orderingPolicy.replace('_', ' ')}\n`;
+  }
+  if (project.createdAt) {
+    header += `  - ${chalk.bold('Created:')} ${formatAge(project.createdAt)} ago\n`;
+  }
+  if (project.completedAt) {
+    header += `  - ${chalk.bold('Completed:')} ${formatAge(project.completedAt)} ago\n`;
+  }
 
 
   const table = new Table({
-    head: ['ID', 'Title', 'Description', 'Status', 'Approved', 'Tools', 'Rules'],
-    colWidths: [10, 25, 40, 15, 10, 7, 7], // Adjust widths as needed
+    head: ['ID', 'Title', 'Description', 'Priority', 'Status', 'Age', 'Approved', 'Tools', 'Rules'],
+    colWidths: [10, 25, 35, 10, 15, 7, 10, 7, 7], // Adjust widths as needed
     wordWrap: true, // Enable word wrapping for long descriptions
     style: { head: ['cyan'] } // Optional styling
   });
 
   if (project.tasks.length === 0) {
-    table.push([{ colSpan: 7, content: 'No tasks in this project.', hAlign: 'center' }]);
+    table.push([{ colSpan: 9, content: 'No tasks in this project.', hAlign: 'center' }]);
   } else {
-    for (const task of project.tasks) {
+    for (const { task, depth } of arrangeTaskTree(project.tasks)) {
       const statusText = task.status === "done" ? "Done" : (task.status === "in progress" ? "In Prog" : "Pending");
       const approvedText = task.approved ? "Yes" : "No";
       const toolsText = task.toolRecommendations ? "[+]" : "[-]"; // Simpler indicators
@@ -39,9 +120,11 @@ export function formatTaskProgressTable(project: Project | undefined): string {
 
       table.push([
         task.id,
-        task.title,
+        depth > 0 ? `${'  '.repeat(depth - 1)}└ ${task.title}` : task.title, // Indent subtasks under their parent
         task.description,
+        formatPriority(task.priority),
         statusText,
+        formatTaskAge(task), // Time spent in the current status
         approvedText,
         toolsText,
         rulesText
@@ -60,14 +143,14 @@ export function formatTaskProgressTable(project: Project | undefined): string {
 export function formatProjectsList(projects: ListProjectsSuccessData["projects"]): string {
 
   const table = new Table({
-      head: ['Project ID', 'Initial Prompt', 'Total', 'Done', 'Approved'],
-      colWidths: [15, 40, 8, 8, 10], // Adjust widths as needed
+      head: ['Project ID', 'Initial Prompt', 'Total', 'Done', 'Approved', 'Created', 'Updated'],
+      colWidths: [15, 40, 8, 8, 10, 9, 9], // Adjust widths as needed
       wordWrap: true,
       style: { head: ['cyan'] } // Optional styling
   });
 
   if (projects.length === 0) {
-      table.push([{ colSpan: 5, content: 'No projects found.', hAlign: 'center' }]);
+      table.push([{ colSpan: 7, content: 'No projects found.', hAlign: 'center' }]);
   } else {
       for (const proj of projects) {
           // Truncate long initial prompts manually if desired, even with wordWrap
@@ -77,10 +160,69 @@ export function formatProjectsList(projects: ListProjectsSuccessData["projects"]
               shortPrompt, // Use truncated prompt
               proj.totalTasks,
               proj.completedTasks,
-              proj.approvedTasks
+              proj.approvedTasks,
+              formatAge(proj.createdAt),
+              formatAge(proj.updatedAt)
           ]);
       }
   }
 
   return '\nProjects List:\n' + table.toString();
 }
+
+/**
+ * Formats task history events as a chronological timeline.
+ * @param events - The history events to render, oldest first.
+ * @returns A string with one line per event.
+ */
+export function formatTaskHistory(events: TaskHistoryEvent[]): string {
+  if (events.length === 0) {
+    return chalk.yellow('No history recorded.');
+  }
+
+  return events.map((event) => {
+    const timestamp = event.timestamp.replace('T', ' ').replace(/\.\d+Z$/, 'Z');
+    let summary: string;
+    switch (event.type) {
+      case "created":
+        summary = chalk.green(`created "${event.details?.title}"`);
+        break;
+      case "status_changed":
+        summary = chalk.blue(`status ${event.details?.from} → ${event.details?.to}`);
+        break;
+      case "updated":
+        summary = `edited ${Object.keys((event.details?.changes as object) ?? {}).join(', ')}`;
+        break;
+      case "approved":
+        summary = chalk.green(event.details?.autoApproved ? 'auto-approved' : 'approved');
+        break;
+      case "rejected":
+        summary = chalk.yellow(`rejected: ${event.details?.reason}`);
+        break;
+      case "deleted":
+        summary = chalk.red(`deleted "${event.details?.title}"`);
+        break;
+      case "claimed":
+        summary = chalk.cyan(`claimed by ${event.details?.assignee}`);
+        break;
+      case "lease_expired":
+        summary = chalk.yellow(`lease of ${event.details?.assignee} expired, released`);
+        break;
+      case "reordered":
+        summary = `moved from position ${event.details?.from} to ${event.details?.to}`;
+        break;
+      case "moved":
+        summary = chalk.cyan(`moved from ${event.details?.fromProjectId} to ${event.details?.toProjectId}`);
+        break;
+      case "copied":
+        summary = chalk.cyan(`copied from ${event.details?.fromProjectId}/${event.details?.fromTaskId} to ${event.details?.toProjectId}/${event.details?.toTaskId}`);
+        break;
+      case "decomposed":
+        summary = chalk.cyan(`${event.details?.mode === "replace" ? 'replaced by' : 'split into'} ${((event.details?.taskIds as string[]) ?? []).join(', ')}`);
+        break;
+      default:
+        summary = event.type;
+    }
+    return `  ${chalk.gray(timestamp)}  ${chalk.bold(event.taskId)}  ${summary} ${chalk.gray(`(by ${event.actor})`)}`;
+  }).join('\n');
+}
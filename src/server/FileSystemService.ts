@@ -1,8 +1,11 @@
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { readFile, mkdir, open, rename, unlink, copyFile, constants } from 'node:fs/promises';
 import { dirname, join, resolve } from "node:path";
-import { homedir } from "node:os";
+import { homedir, hostname } from "node:os";
+import { randomBytes } from "node:crypto";
 import { AppError, AppErrorCode } from "../types/errors.js";
 import { TaskManagerFile } from "../types/data.js";
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateTaskManagerFile } from "./migrations.js";
+import { validateTaskManagerFile } from "./taskFileSchema.js";
 import * as fs from 'node:fs';
 
 export interface InitializedTaskData {
@@ -11,13 +14,54 @@ export interface InitializedTaskData {
   maxTaskId: number;
 }
 
+export interface TasksFileMigrationReport {
+  filePath: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the migrations that were (or, in a dry run, would be) applied */
+  applied: string[];
+  dryRun: boolean;
+  /** Copy of the original file, written when migrations were applied */
+  backupPath?: string;
+}
+
+export interface FileSystemServiceOptions {
+  /** How long to wait for the lock before failing. Defaults to TASK_MANAGER_LOCK_TIMEOUT_MS or 10 seconds. */
+  lockTimeoutMs?: number;
+  /**
+   * Age after which a lock whose owner cannot be checked (held on another host,
+   * or written by an older version) is considered abandoned. Defaults to 30 seconds.
+   */
+  staleLockMs?: number;
+}
+
+// Contents of the lock file, identifying the process that holds it
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  createdAt: string;
+}
+
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_INTERVAL_MS = 100;
+
 export class FileSystemService {
   private filePath: string;
   private lockFilePath: string;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  // Contents of the lock file we wrote, so we never release a lock taken over by another process
+  private heldLock: string | undefined;
+  // Schema version of the file on disk as last seen, so outdated files are backed up before being overwritten
+  private fileSchemaVersion: number | undefined;
 
-  constructor(filePath: string) {
+  constructor(filePath: string, options: FileSystemServiceOptions = {}) {
     this.filePath = filePath;
     this.lockFilePath = `${filePath}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs
+      ?? (Number(process.env.TASK_MANAGER_LOCK_TIMEOUT_MS) || DEFAULT_LOCK_TIMEOUT_MS);
+    this.staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
   }
 
   /**
@@ -41,21 +85,116 @@ export class FileSystemService {
   }
 
   /**
-   * Acquires a file system lock
+   * Acquires a file system lock, taking over locks left behind by dead processes
+   * @throws {LockTimeout} If the lock is still held by another process after lockTimeoutMs
    */
   private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
     while (true) {
+      const contents = JSON.stringify({
+        pid: process.pid,
+        hostname: hostname(),
+        createdAt: new Date().toISOString(),
+      } satisfies LockInfo);
       try {
         // Try to create lock file
         const fd = fs.openSync(this.lockFilePath, 'wx');
-        fs.closeSync(fd);
+        try {
+          fs.writeSync(fd, contents);
+        } finally {
+          fs.closeSync(fd);
+        }
+        this.heldLock = contents;
         return;
       } catch (error: any) {
-        if (error.code === 'EEXIST') {
-          // Lock file exists, wait and retry
-          await new Promise(resolve => setTimeout(resolve, 100));
-          continue;
+        if (error.code !== 'EEXIST') {
+          throw error;
         }
+      }
+
+      // Lock file exists: take it over if its owner is gone, otherwise wait and retry
+      const existing = this.readLockFile();
+      if (existing !== undefined && this.isLockStale(existing)) {
+        this.removeLockFile(existing);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        const owner = existing !== undefined ? this.parseLockInfo(existing.contents) : undefined;
+        throw new AppError(
+          `Timed out after ${this.lockTimeoutMs}ms waiting for lock file ${this.lockFilePath}` +
+            (owner ? ` (held by process ${owner.pid} on ${owner.hostname} since ${owner.createdAt})` : ''),
+          AppErrorCode.LockTimeout,
+          owner
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Reads the lock file, returning undefined if it disappeared in the meantime
+   */
+  private readLockFile(): { contents: string; mtimeMs: number } | undefined {
+    try {
+      const { mtimeMs } = fs.statSync(this.lockFilePath);
+      return { contents: fs.readFileSync(this.lockFilePath, 'utf-8'), mtimeMs };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private parseLockInfo(contents: string): LockInfo | undefined {
+    try {
+      const info = JSON.parse(contents);
+      if (typeof info?.pid === 'number' && typeof info?.hostname === 'string' && typeof info?.createdAt === 'string') {
+        return info;
+      }
+    } catch {
+      // Empty or partially written lock file, e.g. from an older version
+    }
+    return undefined;
+  }
+
+  /**
+   * A lock is stale if it was taken on this host by a process that no longer
+   * exists. Locks from other hosts, and lock files without owner information,
+   * are only considered stale once they are older than staleLockMs.
+   */
+  private isLockStale(lock: { contents: string; mtimeMs: number }): boolean {
+    const info = this.parseLockInfo(lock.contents);
+    if (info && info.hostname === hostname()) {
+      return !this.isProcessAlive(info.pid);
+    }
+    const createdAt = info ? Date.parse(info.createdAt) : lock.mtimeMs;
+    return Date.now() - (Number.isNaN(createdAt) ? lock.mtimeMs : createdAt) > this.staleLockMs;
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      // Signal 0 only checks whether the process exists
+      process.kill(pid, 0);
+      return true;
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to another user
+      return error.code === 'EPERM';
+    }
+  }
+
+  /**
+   * Removes a stale lock file, unless another process replaced it since it was read
+   */
+  private removeLockFile(stale: { contents: string }): void {
+    const current = this.readLockFile();
+    if (current?.contents !== stale.contents) {
+      return;
+    }
+    try {
+      fs.unlinkSync(this.lockFilePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
         throw error;
       }
     }
@@ -65,7 +204,14 @@ export class FileSystemService {
    * Releases the file system lock
    */
   private async releaseLock(): Promise<void> {
+    const held = this.heldLock;
+    this.heldLock = undefined;
     try {
+      const current = await fs.promises.readFile(this.lockFilePath, 'utf-8');
+      if (current !== held) {
+        // Our lock was taken over as stale; the file now belongs to another process
+        return;
+      }
       await fs.promises.unlink(this.lockFilePath);
     } catch (error: any) {
       if (error.code !== 'ENOENT') {
@@ -92,7 +238,7 @@ export class FileSystemService {
   public async loadAndInitializeTasks(): Promise<InitializedTaskData> {
     return this.executeOperation(async () => {
       const data = await this.loadTasks();
-      const { maxProjectId, maxTaskId } = this.calculateMaxIds(data);
+      const { maxProjectId, maxTaskId } = FileSystemService.calculateMaxIds(data);
       
       return {
         data,
@@ -112,9 +258,10 @@ export class FileSystemService {
   }
 
   /**
-   * Calculate max IDs from task data
+   * Calculate max IDs from task data. Task IDs in the history count too, so
+   * deleted tasks' IDs (and their history) are never given to new tasks.
    */
-  public calculateMaxIds(data: TaskManagerFile): { maxProjectId: number; maxTaskId: number } {
+  public static calculateMaxIds(data: TaskManagerFile): { maxProjectId: number; maxTaskId: number } {
     const allTaskIds: number[] = [];
     const allProjectIds: number[] = [];
 
@@ -123,8 +270,9 @@ export class FileSystemService {
       if (!Number.isNaN(projNum)) {
         allProjectIds.push(projNum);
       }
-      for (const t of proj.tasks) {
-        const tNum = Number.parseInt(t.id.replace("task-", ""), 10);
+      const taskIds = [...proj.tasks.map((t) => t.id), ...(proj.history ?? []).map((e) => e.taskId)];
+      for (const taskId of taskIds) {
+        const tNum = Number.parseInt(taskId.replace("task-", ""), 10);
         if (!Number.isNaN(tNum)) {
           allTaskIds.push(tNum);
         }
@@ -138,22 +286,120 @@ export class FileSystemService {
   }
 
   /**
-   * Loads raw task data from the JSON file
+   * Reads and parses the JSON file without migrating or validating it
+   * @returns The parsed contents, or undefined if the file does not exist
    */
-  private async loadTasks(): Promise<TaskManagerFile> {
+  private async readTasksFile(): Promise<unknown> {
+    let contents: string;
     try {
-      const data = await readFile(this.filePath, "utf-8");
-      return JSON.parse(data);
+      contents = await readFile(this.filePath, "utf-8");
     } catch (error) {
       if (error instanceof Error) {
         if (error.message.includes('ENOENT')) {
-          // If file doesn't exist, return empty data
-          return { projects: [] };
+          return undefined;
         }
         throw new AppError(`Failed to read tasks file: ${error.message}`, AppErrorCode.FileReadError, error);
       }
       throw new AppError('Unknown error reading tasks file', AppErrorCode.FileReadError, error);
     }
+
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      throw new AppError(
+        `Failed to parse tasks file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        AppErrorCode.FileParseError,
+        error
+      );
+    }
+  }
+
+  /**
+   * Loads task data from the JSON file, upgrading it to the current schema
+   * version in memory and validating it. The upgraded data is written back,
+   * after backing up the original, the next time tasks are saved.
+   */
+  private async loadTasks(): Promise<TaskManagerFile> {
+    const parsed = await this.readTasksFile();
+    if (parsed === undefined) {
+      // If file doesn't exist, return empty data
+      this.fileSchemaVersion = CURRENT_SCHEMA_VERSION;
+      return { schemaVersion: CURRENT_SCHEMA_VERSION, projects: [] };
+    }
+
+    const { data, fromVersion } = migrateTaskManagerFile(parsed, this.filePath);
+    this.fileSchemaVersion = fromVersion;
+    return validateTaskManagerFile(data, this.filePath);
+  }
+
+  /**
+   * Copies the JSON file to "<file>.v<version>.bak" if it uses an older schema
+   * version, so the original survives being overwritten in the current format.
+   * An existing backup of the same version is kept as is.
+   * @returns The backup path, if the file is outdated
+   */
+  private async backupOutdatedFile(): Promise<string | undefined> {
+    if (this.fileSchemaVersion === CURRENT_SCHEMA_VERSION) {
+      return undefined;
+    }
+
+    let version: number;
+    try {
+      const parsed = await this.readTasksFile();
+      if (parsed === undefined || typeof parsed !== 'object' || parsed === null) {
+        return undefined;
+      }
+      version = getSchemaVersion(parsed as Record<string, unknown>);
+    } catch {
+      // An unreadable file has nothing worth migrating
+      return undefined;
+    }
+    if (version >= CURRENT_SCHEMA_VERSION) {
+      return undefined;
+    }
+
+    const backupPath = `${this.filePath}.v${version}.bak`;
+    try {
+      await copyFile(this.filePath, backupPath, constants.COPYFILE_EXCL);
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw new AppError(`Failed to back up tasks file to ${backupPath}`, AppErrorCode.FileWriteError, error);
+      }
+    }
+    return backupPath;
+  }
+
+  /**
+   * Writes task data to the JSON file. Callers must hold the file system lock.
+   * The data is written to a temporary file, flushed to disk and renamed over
+   * the tasks file, so a crash mid-write never leaves a truncated file behind.
+   */
+  private async writeTasks(data: TaskManagerFile): Promise<void> {
+    await this.backupOutdatedFile();
+    const { schemaVersion, ...rest } = data;
+    const tempFilePath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      // Ensure directory exists before writing
+      const dir = dirname(this.filePath);
+      await mkdir(dir, { recursive: true });
+      
+      // Write and flush the temporary file, then atomically replace the tasks file
+      const handle = await open(tempFilePath, 'w');
+      try {
+        await handle.writeFile(JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...rest }, null, 2), "utf-8");
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await rename(tempFilePath, this.filePath);
+      this.fileSchemaVersion = CURRENT_SCHEMA_VERSION;
+    } catch (error) {
+      await unlink(tempFilePath).catch(() => undefined);
+      if (error instanceof Error && error.message.includes("EROFS")) {
+        throw new AppError("Cannot save tasks: read-only file system", AppErrorCode.ReadOnlyFileSystem, error);
+      }
+      throw new AppError("Failed to save tasks file", AppErrorCode.FileWriteError, error);
+    }
   }
 
   /**
@@ -161,23 +407,50 @@ export class FileSystemService {
    */
   public async saveTasks(data: TaskManagerFile): Promise<void> {
     return this.executeOperation(async () => {
-      try {
-        // Ensure directory exists before writing
-        const dir = dirname(this.filePath);
-        await mkdir(dir, { recursive: true });
-        
-        // Write to the file
-        await writeFile(
-          this.filePath,
-          JSON.stringify(data, null, 2),
-          "utf-8"
-        );
-      } catch (error) {
-        if (error instanceof Error && error.message.includes("EROFS")) {
-          throw new AppError("Cannot save tasks: read-only file system", AppErrorCode.ReadOnlyFileSystem, error);
-        }
-        throw new AppError("Failed to save tasks file", AppErrorCode.FileWriteError, error);
+      await this.writeTasks(data);
+    });
+  }
+
+  /**
+   * Loads, modifies and saves task data while holding the file system lock,
+   * so no other process can write in between. Nothing is written if the
+   * mutator throws.
+   * @param mutator Function that modifies the loaded data in place
+   * @returns The mutator's return value
+   */
+  public async updateTasks<T>(mutator: (data: TaskManagerFile) => Promise<T> | T): Promise<T> {
+    return this.executeOperation(async () => {
+      const data = await this.loadTasks();
+      const result = await mutator(data);
+      await this.writeTasks(data);
+      return result;
+    });
+  }
+
+  /**
+   * Upgrades the JSON file to the current schema version, backing up the original
+   * @param dryRun Only report which migrations would be applied, without writing anything
+   * @throws {FileReadError} If the file does not exist
+   * @throws {FileParseError} If the file is not valid JSON or fails validation after migrating
+   */
+  public async migrateTasksFile(dryRun = false): Promise<TasksFileMigrationReport> {
+    return this.executeOperation(async () => {
+      const parsed = await this.readTasksFile();
+      if (parsed === undefined) {
+        throw new AppError(`Tasks file not found: ${this.filePath}`, AppErrorCode.FileReadError);
+      }
+
+      const { data, fromVersion, toVersion, applied } = migrateTaskManagerFile(parsed, this.filePath);
+      const validated = validateTaskManagerFile(data, this.filePath);
+      this.fileSchemaVersion = fromVersion;
+
+      let backupPath: string | undefined;
+      if (!dryRun && applied.length > 0) {
+        backupPath = await this.backupOutdatedFile();
+        await this.writeTasks(validated);
       }
+
+      return { filePath: this.filePath, fromVersion, toVersion, applied, dryRun, backupPath };
     });
   }
 
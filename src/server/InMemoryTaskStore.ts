@@ -0,0 +1,37 @@
+import { TaskManagerFile } from "../types/data.js";
+import { TaskStore } from "./TaskStore.js";
+
+/**
+ * Task store that keeps data in process memory. Useful for tests and for
+ * embedding TaskManager where nothing should be written to disk.
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private data: TaskManagerFile;
+  // Tail of the queue of pending updates, so updates run one at a time
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(initialData: TaskManagerFile = { projects: [] }) {
+    this.data = structuredClone(initialData);
+  }
+
+  public async load(): Promise<TaskManagerFile> {
+    // Hand out copies so callers cannot change stored data without saving it
+    return structuredClone(this.data);
+  }
+
+  public async save(data: TaskManagerFile): Promise<void> {
+    this.data = structuredClone(data);
+  }
+
+  public async update<T>(mutator: (data: TaskManagerFile) => Promise<T> | T): Promise<T> {
+    const run = async () => {
+      const draft = structuredClone(this.data);
+      const result = await mutator(draft);
+      this.data = draft;
+      return result;
+    };
+    const result = this.pending.then(run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,34 @@
+import { TaskManagerFile } from "../types/data.js";
+import { FileSystemService } from "./FileSystemService.js";
+import { TaskStore } from "./TaskStore.js";
+import { watchFiles } from "./watchFiles.js";
+
+/**
+ * Task store backed by a single JSON file, shared between the MCP server
+ * and the CLI. Every operation goes through the file system lock.
+ */
+export class JsonFileTaskStore implements TaskStore {
+  private filePath: string;
+  private fileSystemService: FileSystemService;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.fileSystemService = new FileSystemService(filePath);
+  }
+
+  public async load(): Promise<TaskManagerFile> {
+    return this.fileSystemService.reloadTasks();
+  }
+
+  public async save(data: TaskManagerFile): Promise<void> {
+    await this.fileSystemService.saveTasks(data);
+  }
+
+  public async update<T>(mutator: (data: TaskManagerFile) => Promise<T> | T): Promise<T> {
+    return this.fileSystemService.updateTasks(mutator);
+  }
+
+  public watch(onChange: () => void): () => void {
+    return watchFiles([this.filePath], onChange);
+  }
+}
@@ -0,0 +1,112 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { TaskManagerFile } from "../types/data.js";
+import { TaskManager } from "./TaskManager.js";
+import { PROJECTS_RESOURCE_URI, projectResourceUri, taskResourceUri } from "./resources.js";
+
+// Changes usually arrive as bursts of file events; wait for them to settle before diffing
+const DEBOUNCE_MS = 100;
+
+/**
+ * Maps every project and task resource URI to a serialized copy of its data,
+ * so two snapshots can be compared resource by resource.
+ */
+function snapshotResources(data: TaskManagerFile): Map<string, string> {
+  const snapshot = new Map<string, string>();
+  for (const project of data.projects) {
+    snapshot.set(projectResourceUri(project.projectId), JSON.stringify(project));
+    for (const task of project.tasks) {
+      snapshot.set(taskResourceUri(project.projectId, task.id), JSON.stringify(task));
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Watches the task manager for changes, whether made through this server or
+ * by another process such as the CLI, and sends MCP resource notifications:
+ * `notifications/resources/updated` for subscribed resources that changed, and
+ * `notifications/resources/list_changed` when projects are added or removed.
+ */
+export class ResourceWatcher {
+  private taskManager: TaskManager;
+  private server: Server;
+  private subscriptions = new Set<string>();
+  private snapshot: Map<string, string> | undefined;
+  private unwatch: (() => void) | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  // Diffs run one at a time so notifications are sent in order
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(taskManager: TaskManager, server: Server) {
+    this.taskManager = taskManager;
+    this.server = server;
+  }
+
+  /**
+   * Records the current state and starts watching for changes.
+   */
+  public async start(): Promise<void> {
+    this.snapshot = snapshotResources(await this.taskManager.readAll());
+    this.unwatch = this.taskManager.watch(() => this.scheduleCheck());
+  }
+
+  public stop(): void {
+    this.unwatch?.();
+    this.unwatch = undefined;
+    clearTimeout(this.timer);
+  }
+
+  public subscribe(uri: string): void {
+    this.subscriptions.add(uri);
+  }
+
+  public unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  private scheduleCheck(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.pending = this.pending.then(() => this.check());
+    }, DEBOUNCE_MS);
+  }
+
+  /**
+   * Reloads the data, compares it with the last snapshot and sends notifications.
+   */
+  private async check(): Promise<void> {
+    try {
+      const previous = this.snapshot ?? new Map<string, string>();
+      const current = snapshotResources(await this.taskManager.readAll());
+      this.snapshot = current;
+
+      const changed = new Set<string>();
+      for (const [uri, value] of current) {
+        if (previous.get(uri) !== value) changed.add(uri);
+      }
+      for (const uri of previous.keys()) {
+        if (!current.has(uri)) changed.add(uri);
+      }
+      if (changed.size === 0) {
+        return;
+      }
+
+      // Any project change shows up in the project list, which includes task counts
+      const projectUris = [...changed].filter((uri) => !uri.includes("/tasks/"));
+      if (projectUris.length > 0) {
+        changed.add(PROJECTS_RESOURCE_URI);
+      }
+      if (projectUris.some((uri) => !previous.has(uri) || !current.has(uri))) {
+        await this.server.sendResourceListChanged();
+      }
+
+      for (const uri of changed) {
+        if (this.subscriptions.has(uri)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+    } catch (error) {
+      console.error("Failed to check for resource changes:", error);
+    }
+  }
+}
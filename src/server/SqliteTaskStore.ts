@@ -0,0 +1,399 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { Project, Task, TaskHistoryEvent, TaskManagerFile, TaskState } from "../types/data.js";
+import { AppError, AppErrorCode } from "../types/errors.js";
+import { FileSystemService } from "./FileSystemService.js";
+import { IdCounters, ProjectTasks, TaskStore } from "./TaskStore.js";
+import { watchFiles } from "./watchFiles.js";
+
+/**
+ * Returns the SQLite database path to use alongside a tasks file:
+ * TASK_MANAGER_SQLITE_PATH if set, otherwise the tasks file path with a .db extension.
+ */
+export function getSqlitePath(filePath: string): string {
+  return process.env.TASK_MANAGER_SQLITE_PATH || `${filePath.replace(/\.json$/i, "")}.db`;
+}
+
+// Projects and tasks keep their full JSON in a data column, so new fields need no
+// schema change. Fields used for filtering and ordering are also stored as columns.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS projects (
+    project_id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    completed INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tasks (
+    project_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    approved INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (project_id, task_id)
+  );
+  CREATE TABLE IF NOT EXISTS history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    details TEXT
+  );
+  CREATE TABLE IF NOT EXISTS counters (
+    name TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_state ON tasks (status, approved);
+  CREATE INDEX IF NOT EXISTS idx_tasks_project_state ON tasks (project_id, status, approved);
+  CREATE INDEX IF NOT EXISTS idx_history_task ON history (project_id, task_id);
+`;
+
+// WHERE clauses for the list_tasks states. "open" names every status so the
+// (status, approved) indexes apply.
+const TASK_STATE_CONDITIONS: Record<Exclude<TaskState, "all">, string> = {
+  open: "status IN ('not started', 'in progress', 'done') AND approved = 0",
+  pending_approval: "status = 'done' AND approved = 0",
+  completed: "status = 'done' AND approved = 1",
+};
+
+interface ProjectRow {
+  project_id: string;
+  position: number;
+  data: string;
+}
+
+interface TaskRow {
+  project_id: string;
+  task_id: string;
+  position: number;
+  data: string;
+}
+
+interface HistoryRow {
+  project_id: string;
+  task_id: string;
+  type: TaskHistoryEvent["type"];
+  timestamp: string;
+  actor: string;
+  details: string | null;
+}
+
+/** Projects as read from the database, with their stored positions */
+interface StoredProjects {
+  data: TaskManagerFile;
+  positions: Map<string, number>;
+}
+
+/**
+ * Serializes a project without its tasks and history, which have their own tables.
+ */
+function serializeProject(project: Project): string {
+  const { tasks, history, ...rest } = project;
+  return JSON.stringify(rest);
+}
+
+/**
+ * Task store backed by a local SQLite database. Updates only write the
+ * project, task and history rows that changed, and run inside an immediate
+ * transaction so concurrent processes are serialized by SQLite itself.
+ * Project-scoped reads and updates, and task listings, only query the rows
+ * involved, so their cost doesn't grow with the number of projects.
+ */
+export class SqliteTaskStore implements TaskStore {
+  private dbPath: string;
+  private db: Database.Database | undefined;
+  // Tail of the queue of pending updates; one connection can only run one transaction at a time
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Opens the database on first use, creating the file and schema if needed.
+   */
+  private getDb(): Database.Database {
+    if (!this.db) {
+      try {
+        if (this.dbPath !== ":memory:") {
+          mkdirSync(dirname(this.dbPath), { recursive: true });
+        }
+        const db = new Database(this.dbPath);
+        db.pragma("journal_mode = WAL");
+        db.pragma("busy_timeout = 5000");
+        db.exec(SCHEMA);
+        // Databases created before the counters table start from their current data
+        if (!db.prepare("SELECT 1 FROM counters").get()) {
+          this.raiseCounters(db, this.readProjects(db).data);
+        }
+        this.db = db;
+      } catch (error) {
+        throw new AppError(`Failed to open SQLite database: ${this.dbPath}`, AppErrorCode.FileReadError, error);
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * Reads the given projects (all of them if no IDs are given) with their
+   * tasks and history.
+   */
+  private readProjects(db: Database.Database, projectIds?: string[]): StoredProjects {
+    const where = projectIds ? `WHERE project_id IN (${projectIds.map(() => "?").join(", ")})` : "";
+    const params = projectIds ?? [];
+    const projectRows = db.prepare(
+      `SELECT project_id, position, data FROM projects ${where} ORDER BY position`
+    ).all(...params) as ProjectRow[];
+    const taskRows = db.prepare(
+      `SELECT project_id, task_id, position, data FROM tasks ${where} ORDER BY position`
+    ).all(...params) as TaskRow[];
+    const historyRows = db.prepare(
+      `SELECT project_id, task_id, type, timestamp, actor, details FROM history ${where} ORDER BY id`
+    ).all(...params) as HistoryRow[];
+
+    const projects = projectRows.map((row): Project => ({ ...JSON.parse(row.data), tasks: [] }));
+    const byId = new Map(projects.map((p) => [p.projectId, p]));
+
+    for (const row of taskRows) {
+      byId.get(row.project_id)?.tasks.push(JSON.parse(row.data) as Task);
+    }
+    for (const row of historyRows) {
+      const project = byId.get(row.project_id);
+      if (!project) continue;
+      if (!project.history) project.history = [];
+      project.history.push({
+        taskId: row.task_id,
+        type: row.type,
+        timestamp: row.timestamp,
+        actor: row.actor,
+        ...(row.details ? { details: JSON.parse(row.details) } : {}),
+      });
+    }
+
+    return {
+      data: { projects },
+      positions: new Map(projectRows.map((row) => [row.project_id, row.position])),
+    };
+  }
+
+  private readCounters(db: Database.Database): IdCounters {
+    const rows = db.prepare("SELECT name, value FROM counters").all() as Array<{ name: string; value: number }>;
+    const values = new Map(rows.map((row) => [row.name, row.value]));
+    return { maxProjectId: values.get("maxProjectId") ?? 0, maxTaskId: values.get("maxTaskId") ?? 0 };
+  }
+
+  /**
+   * Raises the ID counters to cover the IDs in the data. Counters never go
+   * down, so IDs of deleted projects and tasks aren't handed out again.
+   */
+  private raiseCounters(db: Database.Database, data: TaskManagerFile): void {
+    const { maxProjectId, maxTaskId } = FileSystemService.calculateMaxIds(data);
+    const raise = db.prepare(
+      "INSERT INTO counters (name, value) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET value = MAX(value, excluded.value)"
+    );
+    raise.run("maxProjectId", maxProjectId);
+    raise.run("maxTaskId", maxTaskId);
+  }
+
+  /**
+   * Writes the rows that differ between two snapshots of the data. A full
+   * snapshot stores projects at their index; in a partial one (scoped) they
+   * keep their stored position, and new projects go after all stored ones.
+   */
+  private writeChanges(db: Database.Database, before: StoredProjects, after: TaskManagerFile, scoped: boolean): void {
+    const upsertProject = db.prepare(
+      "INSERT OR REPLACE INTO projects (project_id, position, completed, data) VALUES (?, ?, ?, ?)"
+    );
+    const upsertTask = db.prepare(
+      "INSERT OR REPLACE INTO tasks (project_id, task_id, position, status, approved, data) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    const insertHistory = db.prepare(
+      "INSERT INTO history (project_id, task_id, type, timestamp, actor, details) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+
+    const previousProjects = new Map(before.data.projects.map((p) => [p.projectId, p]));
+    let nextPosition = scoped
+      ? (db.prepare("SELECT COALESCE(MAX(position), -1) + 1 AS next FROM projects").get() as { next: number }).next
+      : 0;
+
+    after.projects.forEach((project, index) => {
+      const previous = previousProjects.get(project.projectId);
+      previousProjects.delete(project.projectId);
+      const storedPosition = before.positions.get(project.projectId);
+      const position = !scoped ? index : storedPosition ?? nextPosition++;
+
+      const data = serializeProject(project);
+      if (!previous || storedPosition !== position || serializeProject(previous) !== data) {
+        upsertProject.run(project.projectId, position, project.completed ? 1 : 0, data);
+      }
+
+      const previousTasks = new Map(previous?.tasks.map((t, i) => [t.id, { task: t, index: i }]) ?? []);
+      project.tasks.forEach((task, taskIndex) => {
+        const previousTask = previousTasks.get(task.id);
+        previousTasks.delete(task.id);
+        const taskData = JSON.stringify(task);
+        if (!previousTask || previousTask.index !== taskIndex || JSON.stringify(previousTask.task) !== taskData) {
+          upsertTask.run(project.projectId, task.id, taskIndex, task.status, task.approved ? 1 : 0, taskData);
+        }
+      });
+      for (const removedTaskId of previousTasks.keys()) {
+        db.prepare("DELETE FROM tasks WHERE project_id = ? AND task_id = ?").run(project.projectId, removedTaskId);
+      }
+
+      // History is append-only, so only the new tail needs to be inserted
+      const history = project.history ?? [];
+      let firstNew = previous?.history?.length ?? 0;
+      if (firstNew > history.length) {
+        db.prepare("DELETE FROM history WHERE project_id = ?").run(project.projectId);
+        firstNew = 0;
+      }
+      for (const event of history.slice(firstNew)) {
+        insertHistory.run(
+          project.projectId,
+          event.taskId,
+          event.type,
+          event.timestamp,
+          event.actor,
+          event.details ? JSON.stringify(event.details) : null
+        );
+      }
+    });
+
+    for (const removedProjectId of previousProjects.keys()) {
+      db.prepare("DELETE FROM projects WHERE project_id = ?").run(removedProjectId);
+      db.prepare("DELETE FROM tasks WHERE project_id = ?").run(removedProjectId);
+      db.prepare("DELETE FROM history WHERE project_id = ?").run(removedProjectId);
+    }
+  }
+
+  /**
+   * Writes the changes and raises the ID counters to match.
+   */
+  private write(db: Database.Database, before: StoredProjects, after: TaskManagerFile, scoped: boolean): void {
+    try {
+      this.writeChanges(db, before, after, scoped);
+      this.raiseCounters(db, after);
+    } catch (error) {
+      throw new AppError(`Failed to write SQLite database: ${this.dbPath}`, AppErrorCode.FileWriteError, error);
+    }
+  }
+
+  private read<T>(reader: (db: Database.Database) => T): T {
+    const db = this.getDb();
+    try {
+      return reader(db);
+    } catch (error) {
+      throw new AppError(`Failed to read SQLite database: ${this.dbPath}`, AppErrorCode.FileReadError, error);
+    }
+  }
+
+  public async load(): Promise<TaskManagerFile> {
+    return this.read((db) => this.readProjects(db).data);
+  }
+
+  public async loadProjects(projectIds: string[]): Promise<TaskManagerFile> {
+    return this.read((db) => this.readProjects(db, projectIds).data);
+  }
+
+  public async listTasks(projectId: string | undefined, state: TaskState | undefined): Promise<ProjectTasks[]> {
+    return this.read((db) => {
+      const projectWhere = projectId !== undefined ? "WHERE project_id = ?" : "";
+      const projectParams = projectId !== undefined ? [projectId] : [];
+      const conditions = [
+        ...(projectId !== undefined ? ["project_id = ?"] : []),
+        ...(state && state !== "all" ? [TASK_STATE_CONDITIONS[state]] : []),
+      ];
+      const taskWhere = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const projectRows = db.prepare(
+        `SELECT project_id, position, data FROM projects ${projectWhere} ORDER BY position`
+      ).all(...projectParams) as ProjectRow[];
+      const taskRows = db.prepare(
+        `SELECT project_id, task_id, position, data FROM tasks ${taskWhere} ORDER BY position`
+      ).all(...projectParams) as TaskRow[];
+
+      const byId = new Map(projectRows.map((row): [string, ProjectTasks] => [
+        row.project_id,
+        { project: JSON.parse(row.data), tasks: [] },
+      ]));
+      for (const row of taskRows) {
+        byId.get(row.project_id)?.tasks.push(JSON.parse(row.data) as Task);
+      }
+      return Array.from(byId.values());
+    });
+  }
+
+  public async save(data: TaskManagerFile): Promise<void> {
+    await this.update((current) => {
+      current.projects = data.projects;
+    });
+  }
+
+  public async update<T>(mutator: (data: TaskManagerFile) => Promise<T> | T): Promise<T> {
+    return this.transaction(async (db) => {
+      const before = this.readProjects(db);
+      const data = structuredClone(before.data);
+      const result = await mutator(data);
+      this.write(db, before, data, false);
+      return result;
+    });
+  }
+
+  public async updateProjects<T>(
+    projectIds: string[],
+    mutator: (data: TaskManagerFile, counters: IdCounters) => Promise<T> | T
+  ): Promise<T> {
+    return this.transaction(async (db) => {
+      const before = this.readProjects(db, projectIds);
+      const data = structuredClone(before.data);
+      const result = await mutator(data, this.readCounters(db));
+      this.write(db, before, data, true);
+      return result;
+    });
+  }
+
+  /**
+   * Runs an operation in an immediate transaction, after this store's
+   * earlier updates, and rolls it back if the operation throws.
+   */
+  private transaction<T>(operation: (db: Database.Database) => Promise<T>): Promise<T> {
+    const run = async () => {
+      const db = this.getDb();
+      try {
+        db.exec("BEGIN IMMEDIATE");
+      } catch (error) {
+        throw new AppError(`Failed to lock SQLite database: ${this.dbPath}`, AppErrorCode.FileWriteError, error);
+      }
+      try {
+        const result = await operation(db);
+        db.exec("COMMIT");
+        return result;
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    };
+    const result = this.pending.then(run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  public watch(onChange: () => void): () => void {
+    if (this.dbPath === ":memory:") {
+      return () => {};
+    }
+    // In WAL mode commits land in the -wal file until the next checkpoint
+    return watchFiles([this.dbPath, `${this.dbPath}-wal`], onChange);
+  }
+
+  /**
+   * Closes the database connection. The store reopens it on next use.
+   */
+  public close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+}
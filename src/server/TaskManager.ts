@@ -1,28 +1,72 @@
 import * as path from "node:path";
+import { randomUUID } from "node:crypto";
 import {
   Task,
   TaskManagerFile,
   TaskState,
-  Project
+  Project,
+  TaskHistoryEvent,
+  TaskHistoryEventType,
+  TaskSortField,
+  ProjectSortField,
+  SortOrder,
+  TaskPriority,
+  OrderingPolicy,
+  DecomposeMode,
+  PlanRefinement,
+  RefinableTaskField,
+  REFINABLE_TASK_FIELDS,
+  TASK_PRIORITIES,
+  VALID_STATUS_TRANSITIONS
 } from "../types/data.js";
 import {
   ProjectCreationSuccessData,
   ApproveTaskSuccessData,
+  RejectTaskSuccessData,
   ApproveProjectSuccessData,
+  UpdateProjectSuccessData,
   OpenTaskSuccessData,
   ListProjectsSuccessData,
   ListTasksSuccessData,
   AddTasksSuccessData,
   DeleteTaskSuccessData,
+  ReorderTasksSuccessData,
+  TransferTaskSuccessData,
+  DecomposeTaskSuccessData,
+  RefineProjectPlanSuccessData,
+  GeneratedPlanPreviewData,
+  ApplyPlanRefinementSuccessData,
+  DeleteProjectSuccessData,
   ReadProjectSuccessData,
+  TaskHistorySuccessData,
+  ClaimTaskSuccessData,
+  HeartbeatTaskSuccessData,
 } from "../types/response.js";
 import { AppError, AppErrorCode } from "../types/errors.js";
 import { FileSystemService } from "./FileSystemService.js";
+import { IdCounters, ProjectTasks, TaskStore, createTaskStore } from "./TaskStore.js";
+import { loadLanguageModel, toLLMError } from "./llm.js";
 import { generateObject, jsonSchema } from "ai";
 
 // Default path follows platform-specific conventions
 const DEFAULT_PATH = path.join(FileSystemService.getAppDataDir(), "tasks.json");
-const TASK_FILE_PATH = process.env.TASK_MANAGER_FILE_PATH || DEFAULT_PATH;
+export const TASK_FILE_PATH = process.env.TASK_MANAGER_FILE_PATH || DEFAULT_PATH;
+
+/** How long a claim lasts without a heartbeat */
+export const DEFAULT_LEASE_SECONDS = 300;
+
+/** Longest lease a claim or heartbeat may ask for (one day) */
+export const MAX_LEASE_SECONDS = 24 * 60 * 60;
+
+interface TaskDefinition {
+  title: string;
+  description: string;
+  toolRecommendations?: string;
+  ruleRecommendations?: string;
+  priority?: TaskPriority;
+  dependsOn?: string[];
+  parentId?: string;
+}
 
 interface ProjectPlanOutput {
   projectPlan: string;
@@ -34,15 +78,53 @@ interface ProjectPlanOutput {
   }>;
 }
 
+interface PlanGenerationOptions {
+  prompt: string;
+  provider: string;
+  model: string;
+  attachments: string[];
+}
+
+/** How long a previewed plan can be accepted for */
+const PLAN_PREVIEW_TTL_MS = 60 * 60 * 1000;
+
+interface TaskDecompositionOutput {
+  tasks: ProjectPlanOutput["tasks"];
+}
+
+interface PlanRefinementOutput {
+  projectPlan: string;
+  tasks: Array<ProjectPlanOutput["tasks"][number] & { id?: string }>;
+}
+
+export interface TaskManagerOptions {
+  /** Name recorded as the actor of history events, e.g. "agent" or "human" */
+  actor?: string;
+  /**
+   * Storage backend to use. Defaults to the store selected by the
+   * TASK_MANAGER_STORE environment variable ("json" unless set).
+   */
+  store?: TaskStore;
+}
+
 export class TaskManager {
   private projectCounter = 0;
   private taskCounter = 0;
+  // Plans generated with previewProjectPlan, by token. Kept in memory only, so they are lost on restart
+  private planPreviews = new Map<string, { prompt: string; plan: ProjectPlanOutput; expiresAt: number }>();
   private data: TaskManagerFile = { projects: [] };
+  private store: TaskStore;
   private fileSystemService: FileSystemService;
   private initialized: Promise<void>;
-
-  constructor(testFilePath?: string) {
-    this.fileSystemService = new FileSystemService(testFilePath || TASK_FILE_PATH);
+  private actor: string;
+  private changeListeners = new Set<() => void>();
+
+  constructor(testFilePath?: string, options: TaskManagerOptions = {}) {
+    const filePath = testFilePath || TASK_FILE_PATH;
+    this.actor = options.actor || "agent";
+    this.store = options.store ?? createTaskStore(process.env.TASK_MANAGER_STORE || "json", filePath);
+    // Still needed for reading attachment files
+    this.fileSystemService = new FileSystemService(filePath);
     this.initialized = this.loadTasks().catch(error => {
       console.error('Failed to initialize TaskManager:', error);
       // Set default values for failed initialization
@@ -54,10 +136,7 @@ export class TaskManager {
 
   private async loadTasks() {
     try {
-      const { data, maxProjectId, maxTaskId } = await this.fileSystemService.loadAndInitializeTasks();
-      this.data = data;
-      this.projectCounter = maxProjectId;
-      this.taskCounter = maxTaskId;
+      this.setData(await this.store.load());
     } catch (error) {
       // Propagate the error to be handled by the constructor
       throw new AppError('Failed to load tasks from disk', AppErrorCode.FileReadError, error);
@@ -77,13 +156,25 @@ export class TaskManager {
     }
   }
 
-  public async reloadFromDisk(): Promise<void> {
+  /**
+   * Replaces the in-memory data and sets the ID counters, calculating them
+   * from the data unless the store provides them (for partial data).
+   */
+  private setData(data: TaskManagerFile, counters: IdCounters = FileSystemService.calculateMaxIds(data)): void {
+    this.data = data;
+    this.projectCounter = counters.maxProjectId;
+    this.taskCounter = counters.maxTaskId;
+  }
+
+  /**
+   * Reloads the data from the store. With project IDs, stores that support it
+   * load only those projects, so this.data then holds just them.
+   */
+  public async reloadFromDisk(projectIds?: string[]): Promise<void> {
     try {
-      const data = await this.fileSystemService.reloadTasks();
-      this.data = data;
-      const { maxProjectId, maxTaskId } = this.fileSystemService.calculateMaxIds(data);
-      this.projectCounter = maxProjectId;
-      this.taskCounter = maxTaskId;
+      this.setData(projectIds && this.store.loadProjects
+        ? await this.store.loadProjects(projectIds)
+        : await this.store.load());
     } catch (error) {
       // Propagate as AppError to be handled by the tool executor
       if (error instanceof AppError) {
@@ -97,74 +188,614 @@ export class TaskManager {
     }
   }
 
-  private async saveTasks() {
-    await this.fileSystemService.saveTasks(this.data);
+  /**
+   * Returns a copy of all projects and tasks, freshly loaded from the store.
+   */
+  public async readAll(): Promise<TaskManagerFile> {
+    await this.ensureInitialized();
+    await this.reloadFromDisk();
+    return structuredClone(this.data);
+  }
+
+  /**
+   * Calls onChange after this task manager saves a change, and whenever the
+   * store reports a change made elsewhere (if the store supports watching).
+   * @returns A function that stops watching
+   */
+  public watch(onChange: () => void): () => void {
+    this.changeListeners.add(onChange);
+    const unwatchStore = this.store.watch?.(onChange);
+    return () => {
+      this.changeListeners.delete(onChange);
+      unwatchStore?.();
+    };
+  }
+
+  /**
+   * Runs a mutation against the latest stored data and saves the result as
+   * one store update. If the operation throws, nothing is saved.
+   * @param projectIds The projects the operation reads and changes. Stores
+   *   that support it then load and save only those, so this.data holds just
+   *   them (plus any projects the operation adds).
+   */
+  private async transaction<T>(operation: () => T, projectIds?: string[]): Promise<T> {
+    try {
+      const result = projectIds && this.store.updateProjects
+        ? await this.store.updateProjects(projectIds, (data, counters) => {
+          this.setData(data, counters);
+          return operation();
+        })
+        : await this.store.update((data) => {
+          this.setData(data);
+          return operation();
+        });
+      this.changeListeners.forEach((listener) => listener());
+      return result;
+    } catch (error) {
+      // Propagate as AppError to be handled by the tool executor
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        'Failed to update tasks on disk',
+        AppErrorCode.FileWriteError,
+        error
+      );
+    }
+  }
+
+  /**
+   * Appends an event to the project's task history.
+   */
+  private recordHistoryEvent(
+    project: Project,
+    taskId: string,
+    type: TaskHistoryEventType,
+    details?: Record<string, unknown>
+  ): void {
+    if (!project.history) {
+      project.history = [];
+    }
+    project.history.push({
+      taskId,
+      type,
+      timestamp: new Date().toISOString(),
+      actor: this.actor,
+      ...(details ? { details } : {}),
+    });
+  }
+
+  /**
+   * Bumps the updatedAt timestamp of a project and, optionally, one of its tasks.
+   */
+  private touch(project: Project, task?: Task, now: string = new Date().toISOString()): void {
+    project.updatedAt = now;
+    if (task) {
+      task.updatedAt = now;
+    }
+  }
+
+  /**
+   * Keeps a task's lifecycle timestamps in line with a status change.
+   * startedAt and completedAt describe the latest pass through a state, so
+   * they are reset when a task moves back to an earlier one.
+   */
+  private applyStatusTimestamps(task: Task, now: string): void {
+    switch (task.status) {
+      case "not started":
+        delete task.startedAt;
+        delete task.completedAt;
+        break;
+      case "in progress":
+        task.startedAt = now;
+        delete task.completedAt;
+        break;
+      case "done":
+        task.completedAt = now;
+        break;
+    }
+  }
+
+  /**
+   * Returns whether a task is claimed by an agent whose lease has not run out.
+   */
+  private hasLiveLease(task: Task, now: string): boolean {
+    return !!task.assignee && !!task.leaseExpiresAt && task.leaseExpiresAt > now;
+  }
+
+  /**
+   * Returns unfinished tasks whose lease has run out to "not started", so
+   * another agent can claim them. Done tasks keep their assignee for the record.
+   */
+  private releaseExpiredLeases(project: Project, now: string): void {
+    for (const task of project.tasks) {
+      if (!task.leaseExpiresAt || task.leaseExpiresAt > now || task.status === "done") {
+        continue;
+      }
+      const assignee = task.assignee;
+      const previousStatus = task.status;
+      delete task.assignee;
+      delete task.leaseExpiresAt;
+      task.status = "not started";
+      this.touch(project, task, now);
+      this.applyStatusTimestamps(task, now);
+      this.recordHistoryEvent(project, task.id, "lease_expired", { assignee });
+      if (previousStatus !== task.status) {
+        this.recordHistoryEvent(project, task.id, "status_changed", { from: previousStatus, to: task.status });
+      }
+    }
+  }
+
+  /**
+   * Sorts items by one of their timestamp fields. Items without the
+   * timestamp go last regardless of the order.
+   */
+  private sortByTimestamp<T extends object, K extends keyof T>(items: T[], field: K, order: SortOrder = "asc"): T[] {
+    return [...items].sort((a, b) => {
+      const aValue = a[field] as unknown as string | undefined;
+      const bValue = b[field] as unknown as string | undefined;
+      if (!aValue || !bValue) {
+        return (aValue ? 0 : 1) - (bValue ? 0 : 1);
+      }
+      const diff = Date.parse(aValue) - Date.parse(bValue);
+      return order === "desc" ? -diff : diff;
+    });
+  }
+
+  /**
+   * Orders a project's tasks by the project's ordering policy. The sort is
+   * stable, so ties keep the order the tasks were added in.
+   */
+  private orderTasks(project: Pick<Project, "orderingPolicy">, tasks: Task[]): Task[] {
+    switch (project.orderingPolicy ?? "sequence") {
+      case "priority": {
+        const rank = (task: Task) => TASK_PRIORITIES.indexOf(task.priority ?? "normal");
+        return [...tasks].sort((a, b) => rank(a) - rank(b));
+      }
+      case "oldest_first":
+        return this.sortByTimestamp(tasks, "createdAt");
+      default:
+        return [...tasks];
+    }
+  }
+
+  /**
+   * Returns the IDs of the tasks that were moved to get from one order to
+   * another: everything outside the longest run of tasks that kept their
+   * relative order. Moving one task therefore reports just that task, not
+   * every task whose index shifted.
+   */
+  private findMovedTaskIds(previousOrder: string[], newOrder: string[]): string[] {
+    const previousIndexes = newOrder.map((id) => previousOrder.indexOf(id));
+    // Longest increasing subsequence of the previous indexes, O(n²) is plenty for a task list
+    const runLength = previousIndexes.map(() => 1);
+    const predecessor = previousIndexes.map(() => -1);
+    let end = -1;
+    for (let i = 0; i < previousIndexes.length; i++) {
+      for (let j = 0; j < i; j++) {
+        if (previousIndexes[j] < previousIndexes[i] && runLength[j] + 1 > runLength[i]) {
+          runLength[i] = runLength[j] + 1;
+          predecessor[i] = j;
+        }
+      }
+      if (end === -1 || runLength[i] > runLength[end]) {
+        end = i;
+      }
+    }
+
+    const kept = new Set<string>();
+    for (let i = end; i !== -1; i = predecessor[i]) {
+      kept.add(newOrder[i]);
+    }
+    return newOrder.filter((id) => !kept.has(id));
+  }
+
+  /**
+   * Creates a new, not yet started task with the next free task ID. Its
+   * dependencies and parent are resolved separately, since they may refer to
+   * other tasks of the same batch.
+   */
+  private createTaskFromDefinition(taskDef: TaskDefinition, now: string): Task {
+    this.taskCounter += 1;
+    return {
+      id: `task-${this.taskCounter}`,
+      title: taskDef.title,
+      description: taskDef.description,
+      status: "not started",
+      approved: false,
+      completedDetails: "",
+      toolRecommendations: taskDef.toolRecommendations,
+      ruleRecommendations: taskDef.ruleRecommendations,
+      ...(taskDef.priority ? { priority: taskDef.priority } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Resolves the dependsOn references of newly created tasks to task IDs.
+   * A reference may be the ID of an existing task in the project, or the title
+   * of another task created in the same batch.
+   */
+  private resolveNewTaskDependencies(project: Project, taskDefs: TaskDefinition[], newTasks: Task[]): void {
+    taskDefs.forEach((taskDef, index) => {
+      if (!taskDef.dependsOn || taskDef.dependsOn.length === 0) {
+        return;
+      }
+
+      const newTask = newTasks[index];
+      const resolved: string[] = [];
+      for (const ref of taskDef.dependsOn) {
+        let depId: string | undefined;
+        if (project.tasks.some((t) => t.id === ref) || newTasks.some((t) => t.id === ref)) {
+          depId = ref;
+        } else {
+          const matches = newTasks.filter((t) => t.title === ref);
+          if (matches.length > 1) {
+            throw new AppError(
+              `Dependency "${ref}" of task "${newTask.title}" is ambiguous: several new tasks have that title`,
+              AppErrorCode.InvalidDependency
+            );
+          }
+          depId = matches[0]?.id;
+        }
+
+        if (!depId) {
+          throw new AppError(
+            `Task "${newTask.title}" depends on unknown task ${ref}`,
+            AppErrorCode.InvalidDependency
+          );
+        }
+        if (depId === newTask.id) {
+          throw new AppError(`Task "${newTask.title}" cannot depend on itself`, AppErrorCode.InvalidDependency);
+        }
+        if (!resolved.includes(depId)) {
+          resolved.push(depId);
+        }
+      }
+      newTask.dependsOn = resolved;
+    });
+  }
+
+  /**
+   * Throws if any dependency ID does not belong to the project or refers to the task itself.
+   */
+  private validateDependencyIds(project: Project, taskId: string, dependsOn: string[]): void {
+    for (const depId of dependsOn) {
+      if (depId === taskId) {
+        throw new AppError(`Task ${taskId} cannot depend on itself`, AppErrorCode.InvalidDependency);
+      }
+      if (!project.tasks.some((t) => t.id === depId)) {
+        throw new AppError(
+          `Task ${taskId} depends on unknown task ${depId}`,
+          AppErrorCode.InvalidDependency
+        );
+      }
+    }
+  }
+
+  /**
+   * Throws if the dependencies between the given tasks form a cycle.
+   */
+  private assertNoDependencyCycles(tasks: Task[]): void {
+    const tasksById = new Map(tasks.map((t) => [t.id, t]));
+    const visited = new Set<string>();
+    const trail: string[] = [];
+
+    const visit = (task: Task) => {
+      const trailIndex = trail.indexOf(task.id);
+      if (trailIndex !== -1) {
+        const cycle = [...trail.slice(trailIndex), task.id];
+        throw new AppError(
+          `Task dependencies would form a cycle: ${cycle.join(" -> ")}`,
+          AppErrorCode.DependencyCycle,
+          { cycle }
+        );
+      }
+      if (visited.has(task.id)) {
+        return;
+      }
+
+      trail.push(task.id);
+      for (const depId of task.dependsOn ?? []) {
+        const dep = tasksById.get(depId);
+        if (dep) {
+          visit(dep);
+        }
+      }
+      trail.pop();
+      visited.add(task.id);
+    };
+
+    for (const task of tasks) {
+      visit(task);
+    }
+  }
+
+  /**
+   * Throws if moving the task to the given status is not allowed by VALID_STATUS_TRANSITIONS.
+   * Setting a task to its current status is a no-op and always allowed.
+   */
+  private assertValidStatusTransition(task: Task, nextStatus: Task["status"]): void {
+    if (task.status === nextStatus) {
+      return;
+    }
+
+    const allowedTransitions: readonly Task["status"][] = VALID_STATUS_TRANSITIONS[task.status];
+    if (!allowedTransitions.includes(nextStatus)) {
+      throw new AppError(
+        `Invalid status transition for task ${task.id}: "${task.status}" -> "${nextStatus}". Allowed next states: ${allowedTransitions.map((s) => `"${s}"`).join(", ")}`,
+        AppErrorCode.InvalidStatusTransition,
+        {
+          currentStatus: task.status,
+          requestedStatus: nextStatus,
+          allowedTransitions,
+        }
+      );
+    }
+  }
+
+  /**
+   * Resolves the parentId references of newly created tasks to task IDs. A
+   * reference may be the ID of an existing task in the project, or the title
+   * of a task created earlier in the same batch.
+   */
+  private resolveNewTaskParents(project: Project, taskDefs: TaskDefinition[], newTasks: Task[]): void {
+    taskDefs.forEach((taskDef, index) => {
+      if (!taskDef.parentId) {
+        return;
+      }
+
+      const ref = taskDef.parentId;
+      const newTask = newTasks[index];
+      const earlierTasks = newTasks.slice(0, index);
+      let parent = project.tasks.find((t) => t.id === ref) ?? earlierTasks.find((t) => t.id === ref);
+      if (!parent) {
+        const matches = earlierTasks.filter((t) => t.title === ref);
+        if (matches.length > 1) {
+          throw new AppError(
+            `Parent "${ref}" of task "${newTask.title}" is ambiguous: several new tasks have that title`,
+            AppErrorCode.InvalidParentTask
+          );
+        }
+        parent = matches[0];
+      }
+
+      if (!parent) {
+        throw new AppError(
+          `Task "${newTask.title}" has unknown parent task ${ref}. Parents in the same request must be listed before their subtasks.`,
+          AppErrorCode.InvalidParentTask
+        );
+      }
+      if (parent.approved) {
+        throw new AppError(
+          `Cannot add subtasks to approved task ${parent.id}`,
+          AppErrorCode.CannotModifyApprovedTask
+        );
+      }
+      newTask.parentId = parent.id;
+    });
+  }
+
+  /**
+   * Returns the existing tasks followed by the new ones, with each new
+   * subtask placed right after its parent's other subtasks so the sequence
+   * reads like the task tree.
+   */
+  private arrangeNewTasks(existingTasks: Task[], newTasks: Task[]): Task[] {
+    const tasks = [...existingTasks];
+    for (const task of newTasks) {
+      const parentIndex = task.parentId ? tasks.findIndex((t) => t.id === task.parentId) : -1;
+      if (parentIndex === -1) {
+        tasks.push(task);
+        continue;
+      }
+      const subtreeIds = new Set([task.parentId!, ...this.getDescendantIds(tasks, task.parentId!)]);
+      let insertAt = parentIndex + 1;
+      while (insertAt < tasks.length && subtreeIds.has(tasks[insertAt].id)) {
+        insertAt += 1;
+      }
+      tasks.splice(insertAt, 0, task);
+    }
+    return tasks;
+  }
+
+  /**
+   * Returns the direct subtasks of a task, or the top-level tasks of the
+   * project when no parent is given. Tasks whose parent no longer exists count
+   * as top-level.
+   */
+  private getSubtasks(project: Project, parentId?: string): Task[] {
+    if (parentId) {
+      return project.tasks.filter((t) => t.parentId === parentId);
+    }
+    return project.tasks.filter((t) => !t.parentId || !project.tasks.some((p) => p.id === t.parentId));
+  }
+
+  /**
+   * Returns the IDs of all subtasks of a task, at any depth.
+   */
+  private getDescendantIds(tasks: Task[], taskId: string): string[] {
+    const descendants: string[] = [];
+    for (const task of tasks) {
+      if (task.parentId === taskId) {
+        descendants.push(task.id, ...this.getDescendantIds(tasks, task.id));
+      }
+    }
+    return descendants;
+  }
+
+  /**
+   * Moves done but unapproved ancestors of a task back to "in progress", since
+   * a parent is only done while all of its subtasks are.
+   */
+  private reopenDoneAncestors(project: Project, task: Task, now: string): void {
+    let parent = project.tasks.find((t) => t.id === task.parentId);
+    while (parent) {
+      if (parent.status === "done" && !parent.approved) {
+        parent.status = "in progress";
+        this.applyStatusTimestamps(parent, now);
+        this.touch(project, parent, now);
+        this.recordHistoryEvent(project, parent.id, "status_changed", { from: "done", to: "in progress", reason: `subtask ${task.id} is not done` });
+      }
+      const parentId: string | undefined = parent.parentId;
+      parent = project.tasks.find((t) => t.id === parentId);
+    }
+  }
+
+  /**
+   * Finds the next task to work on among the subtasks of a parent (or the
+   * top-level tasks), in the project's order. Tasks with open subtasks are
+   * worked on through them, so the result is the first actionable leaf; a
+   * parent comes up itself once all of its subtasks are done and approved.
+   * Tasks blocked by dependencies are skipped together with their subtasks.
+   */
+  private findNextTask(project: Project, isActionable: (task: Task) => boolean, parentId?: string): Task | undefined {
+    for (const task of this.orderTasks(project, this.getSubtasks(project, parentId))) {
+      if ((task.status === "done" && task.approved) || this.getBlockingTaskIds(project, task).length > 0) {
+        continue;
+      }
+      const hasOpenSubtasks = this.getSubtasks(project, task.id).some((t) => !(t.status === "done" && t.approved));
+      if (hasOpenSubtasks) {
+        const subtask = this.findNextTask(project, isActionable, task.id);
+        if (subtask) {
+          return subtask;
+        }
+      } else if (isActionable(task)) {
+        return task;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the IDs of the task's prerequisites that are not yet done and approved.
+   */
+  private getBlockingTaskIds(project: Project, task: Task): string[] {
+    return (task.dependsOn ?? []).filter((depId) => {
+      const dep = project.tasks.find((t) => t.id === depId);
+      return dep !== undefined && !(dep.status === "done" && dep.approved);
+    });
   }
 
   public async createProject(
     initialPrompt: string,
-    tasks: { title: string; description: string; toolRecommendations?: string; ruleRecommendations?: string }[],
+    tasks: TaskDefinition[],
     projectPlan?: string,
-    autoApprove?: boolean
+    autoApprove?: boolean,
+    orderingPolicy?: OrderingPolicy
   ): Promise<ProjectCreationSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
-    
-    this.projectCounter += 1;
-    const projectId = `proj-${this.projectCounter}`;
-
-    const newTasks: Task[] = [];
-    for (const taskDef of tasks) {
-      this.taskCounter += 1;
-      newTasks.push({
-        id: `task-${this.taskCounter}`,
-        title: taskDef.title,
-        description: taskDef.description,
-        status: "not started",
-        approved: false,
-        completedDetails: "",
-        toolRecommendations: taskDef.toolRecommendations,
-        ruleRecommendations: taskDef.ruleRecommendations,
-      });
-    }
+    return this.transaction(() => {
+      this.projectCounter += 1;
+      const projectId = `proj-${this.projectCounter}`;
+      const now = new Date().toISOString();
+
+      const newTasks = tasks.map((taskDef) => this.createTaskFromDefinition(taskDef, now));
+
+      const newProject: Project = {
+        projectId,
+        initialPrompt,
+        projectPlan: projectPlan || initialPrompt,
+        tasks: newTasks,
+        completed: false,
+        autoApprove: autoApprove === true ? true : false,
+        ...(orderingPolicy ? { orderingPolicy } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
 
-    const newProject: Project = {
-      projectId,
-      initialPrompt,
-      projectPlan: projectPlan || initialPrompt,
-      tasks: newTasks,
-      completed: false,
-      autoApprove: autoApprove === true ? true : false,
-    };
+      this.resolveNewTaskDependencies({ ...newProject, tasks: [] }, tasks, newTasks);
+      this.assertNoDependencyCycles(newTasks);
+      this.resolveNewTaskParents({ ...newProject, tasks: [] }, tasks, newTasks);
+      newProject.tasks = this.arrangeNewTasks([], newTasks);
+      for (const task of newTasks) {
+        this.recordHistoryEvent(newProject, task.id, "created", { title: task.title });
+      }
 
-    this.data.projects.push(newProject);
-    await this.saveTasks();
+      this.data.projects.push(newProject);
+
+      return {
+        projectId,
+        totalTasks: newTasks.length,
+        tasks: newTasks.map((t) => ({
+          id: t.id,
+          title: t.title,
+          description: t.description,
+        })),
+        message: `Project ${projectId} created with ${newTasks.length} tasks.`,
+      };
+    }, []);
+  }
+
+  public async generateProjectPlan(options: PlanGenerationOptions): Promise<ProjectCreationSuccessData> {
+    await this.ensureInitialized();
+    const plan = await this.generatePlan(options);
+    return await this.createProject(options.prompt, plan.tasks, plan.projectPlan);
+  }
+
+  /**
+   * Generates a project plan like generateProjectPlan, but only keeps it in
+   * memory under a token instead of creating the project. The exact plan is
+   * created with acceptGeneratedPlan until the preview expires.
+   */
+  public async previewProjectPlan(options: PlanGenerationOptions): Promise<GeneratedPlanPreviewData> {
+    await this.ensureInitialized();
+    const plan = await this.generatePlan(options);
+
+    const now = Date.now();
+    for (const [token, preview] of this.planPreviews) {
+      if (preview.expiresAt <= now) {
+        this.planPreviews.delete(token);
+      }
+    }
+    const token = randomUUID();
+    const expiresAt = now + PLAN_PREVIEW_TTL_MS;
+    this.planPreviews.set(token, { prompt: options.prompt, plan, expiresAt });
 
     return {
-      projectId,
-      totalTasks: newTasks.length,
-      tasks: newTasks.map((t) => ({
-        id: t.id,
-        title: t.title,
-        description: t.description,
-      })),
-      message: `Project ${projectId} created with ${newTasks.length} tasks.`,
+      token,
+      prompt: options.prompt,
+      projectPlan: plan.projectPlan,
+      tasks: plan.tasks,
+      expiresAt: new Date(expiresAt).toISOString(),
+      message: `Generated a plan with ${plan.tasks.length} tasks. Nothing was saved yet: review it, then call accept_generated_plan with token ${token} to create the project.`,
     };
   }
 
-  public async generateProjectPlan({
+  /**
+   * Creates the project previewed by previewProjectPlan.
+   * @throws {ProposalNotFound} If the token is unknown or its preview expired
+   */
+  public async acceptGeneratedPlan(token: string): Promise<ProjectCreationSuccessData> {
+    await this.ensureInitialized();
+    // Taken out before any await so concurrent accepts of one token can't both create the project
+    const preview = this.planPreviews.get(token);
+    this.planPreviews.delete(token);
+    if (!preview || preview.expiresAt <= Date.now()) {
+      throw new AppError(
+        `Generated plan ${token} not found or expired. Generate the plan again.`,
+        AppErrorCode.ProposalNotFound
+      );
+    }
+
+    try {
+      return await this.createProject(preview.prompt, preview.plan.tasks, preview.plan.projectPlan);
+    } catch (err) {
+      this.planPreviews.set(token, preview);
+      throw err;
+    }
+  }
+
+  /**
+   * Asks the model for a project plan and tasks for a prompt and attachments.
+   */
+  private async generatePlan({
     prompt,
     provider,
     model,
     attachments,
-  }: {
-    prompt: string;
-    provider: string;
-    model: string;
-    attachments: string[];
-  }): Promise<ProjectCreationSuccessData> {
-    await this.ensureInitialized();
-
+  }: PlanGenerationOptions): Promise<ProjectPlanOutput> {
     // Read all attachment files
     const attachmentContents: string[] = [];
     for (const filename of attachments) {
@@ -205,68 +836,452 @@ export class TaskManager {
       llmPrompt += `\n<attachment>${content}</attachment>`;
     }
 
-    // Import and configure the appropriate provider
-    let modelProvider;
-    switch (provider) {
-        case "openai":
-  const { openai } = await import("@ai-sdk/openai");
-  modelProvider = openai(model, {
-    baseURL: process.env.OPENROUTER_API_BASE || "https://openrouter.ai/api/v1",
-    apiKey: process.env.OPENROUTER_API_KEY,
-  });
-  break;
-      case "google":
-        const { google } = await import("@ai-sdk/google");
-        modelProvider = google(model);
-        break;
-      case "deepseek":
-        const { deepseek } = await import("@ai-sdk/deepseek");
-        modelProvider = deepseek(model);
-        break;
-      default:
-        throw new AppError(`Invalid provider: ${provider}`, AppErrorCode.InvalidProvider);
+    const modelProvider = await loadLanguageModel(provider, model);
+    try {
+      const { object } = await generateObject({
+        model: modelProvider,
+        schema: projectPlanSchema,
+        prompt: llmPrompt,
+      });
+      return object;
+    } catch (err: any) {
+      throw toLLMError(err, provider, model, "Failed to generate project plan due to an unexpected error");
     }
+  }
+
+  /**
+   * Uses an LLM to break a task down into smaller tasks, based on the task,
+   * the project plan and the tasks next to it. In "subtasks" mode the
+   * generated tasks become subtasks of the task; in "replace" mode they take
+   * its place, including its parent and its dependencies in both directions.
+   */
+  public async decomposeTask({
+    projectId,
+    taskId,
+    provider,
+    model,
+    mode = "subtasks",
+  }: {
+    projectId: string;
+    taskId: string;
+    provider: string;
+    model: string;
+    mode?: DecomposeMode;
+  }): Promise<DecomposeTaskSuccessData> {
+    await this.ensureInitialized();
+    await this.reloadFromDisk([projectId]);
 
+    // Check the task up front so the provider isn't called for nothing
+    const { project, task } = this.findDecomposableTask(projectId, taskId, mode);
+
+    const decompositionSchema = jsonSchema<TaskDecompositionOutput>({
+      type: "object",
+      properties: {
+        tasks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              description: { type: "string" },
+              toolRecommendations: { type: "string" },
+              ruleRecommendations: { type: "string" },
+            },
+            required: ["title", "description"],
+          },
+        },
+      },
+      required: ["tasks"],
+    });
+
+    const describeTask = (t: Task) => `- ${t.title} (${t.status}): ${t.description}`;
+    const siblings = this.getSubtasks(project, task.parentId).filter((t) => t.id !== taskId);
+    const subtasks = this.getSubtasks(project, taskId);
+    let llmPrompt = mode === "subtasks"
+      ? `<prompt>Break the following task down into smaller subtasks that together complete it.${subtasks.length ? ' Only add subtasks that are still missing.' : ''}</prompt>`
+      : `<prompt>Break the following task down into smaller tasks that replace it.</prompt>`;
+    llmPrompt += `\n<task>${describeTask(task)}${task.toolRecommendations ? `\nTools: ${task.toolRecommendations}` : ''}${task.ruleRecommendations ? `\nRules: ${task.ruleRecommendations}` : ''}</task>`;
+    llmPrompt += `\n<projectPlan>${project.projectPlan}</projectPlan>`;
+    if (siblings.length) {
+      llmPrompt += `\n<otherTasks>${siblings.map(describeTask).join('\n')}</otherTasks>`;
+    }
+    if (subtasks.length) {
+      llmPrompt += `\n<existingSubtasks>${subtasks.map(describeTask).join('\n')}</existingSubtasks>`;
+    }
+    llmPrompt += `\n<outputFormat>Return your output as JSON formatted according to the following schema: ${JSON.stringify(decompositionSchema, null, 2)}</outputFormat>`;
+
+    const modelProvider = await loadLanguageModel(provider, model);
+    let generatedTasks: TaskDecompositionOutput["tasks"];
     try {
       const { object } = await generateObject({
         model: modelProvider,
-        schema: projectPlanSchema,
+        schema: decompositionSchema,
         prompt: llmPrompt,
       });
-      return await this.createProject(prompt, object.tasks, object.projectPlan);
+      generatedTasks = object.tasks;
     } catch (err: any) {
-      if (err.name === 'LoadAPIKeyError' || 
-          err.message.includes('API key is missing') || 
-          err.message.includes('You didn\'t provide an API key') ||
-          err.message.includes('unregistered callers') ||
-          (err.responseBody && err.responseBody.includes('Authentication Fails'))) {
-        throw new AppError(
-          `Missing API key environment variable required for ${provider}`,
-          AppErrorCode.ConfigurationError,
-          err
-        );
+      throw toLLMError(err, provider, model, "Failed to decompose task due to an unexpected error");
+    }
+    if (generatedTasks.length === 0) {
+      throw new AppError(`The model did not generate any tasks for task ${taskId}`, AppErrorCode.LLMGenerationError);
+    }
+
+    return this.transaction(() => {
+      // The tasks may have changed while the model was generating
+      const { project, task } = this.findDecomposableTask(projectId, taskId, mode);
+      const now = new Date().toISOString();
+      const newTasks = generatedTasks.map((taskDef) => this.createTaskFromDefinition(taskDef, now));
+      const newTaskIds = newTasks.map((t) => t.id);
+
+      if (mode === "subtasks") {
+        newTasks.forEach((t) => { t.parentId = taskId; });
+        project.tasks = this.arrangeNewTasks(project.tasks, newTasks);
+      } else {
+        for (const newTask of newTasks) {
+          if (task.parentId) newTask.parentId = task.parentId;
+          if (task.dependsOn?.length) newTask.dependsOn = [...task.dependsOn];
+        }
+        project.tasks.splice(project.tasks.indexOf(task), 1, ...newTasks);
+        // Tasks that waited for the replaced task now wait for all of its replacements
+        for (const t of project.tasks) {
+          if (t.dependsOn?.includes(taskId)) {
+            t.dependsOn = t.dependsOn.flatMap((depId) => depId === taskId ? newTaskIds : [depId]);
+          }
+        }
+      }
+
+      this.touch(project, mode === "subtasks" ? task : undefined, now);
+      this.recordHistoryEvent(project, taskId, "decomposed", { mode, taskIds: newTaskIds });
+      for (const newTask of newTasks) {
+        this.recordHistoryEvent(project, newTask.id, "created", { title: newTask.title });
+        this.reopenDoneAncestors(project, newTask, now);
       }
-      // Check for invalid model errors by looking at the error code, type, and message
-      if ((err.data?.error?.code === 'model_not_found') && 
-          err.message.includes('model')) {
+
+      return {
+        projectId,
+        taskId,
+        mode,
+        newTasks: newTasks.map((t) => ({
+          id: t.id,
+          title: t.title,
+          description: t.description,
+        })),
+        message: mode === "subtasks"
+          ? `Task ${taskId} split into ${newTasks.length} subtask(s) in project ${projectId}.`
+          : `Task ${taskId} replaced by ${newTasks.length} task(s) in project ${projectId}.`,
+      };
+    }, [projectId]);
+  }
+
+  /**
+   * Uses an LLM to revise a project's plan and tasks according to feedback.
+   * Nothing is changed yet: the proposed changes are stored on the project
+   * until they are applied with applyPlanRefinement, replacing any earlier
+   * proposal. Approved tasks are never part of a proposal.
+   */
+  public async refineProjectPlan({
+    projectId,
+    feedback,
+    provider,
+    model,
+  }: {
+    projectId: string;
+    feedback: string;
+    provider: string;
+    model: string;
+  }): Promise<RefineProjectPlanSuccessData> {
+    await this.ensureInitialized();
+    await this.reloadFromDisk([projectId]);
+
+    const project = this.findRefinableProject(projectId);
+
+    const refinementSchema = jsonSchema<PlanRefinementOutput>({
+      type: "object",
+      properties: {
+        projectPlan: { type: "string" },
+        tasks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              title: { type: "string" },
+              description: { type: "string" },
+              toolRecommendations: { type: "string" },
+              ruleRecommendations: { type: "string" },
+            },
+            required: ["title", "description"],
+          },
+        },
+      },
+      required: ["projectPlan", "tasks"],
+    });
+
+    const describeTask = (t: Task) => JSON.stringify({
+      id: t.id,
+      title: t.title,
+      description: t.description,
+      status: t.status,
+      toolRecommendations: t.toolRecommendations,
+      ruleRecommendations: t.ruleRecommendations,
+    });
+    const openTasks = project.tasks.filter((t) => !t.approved);
+    const approvedTasks = project.tasks.filter((t) => t.approved);
+    let llmPrompt = `<prompt>Revise the project plan and its tasks according to the feedback. Return the revised plan and the complete revised list of tasks. Keep the id of each task you keep or change, leave the id out for new tasks, and leave out tasks that should be removed. Approved tasks are final and must not be listed.</prompt>`;
+    llmPrompt += `\n<feedback>${feedback}</feedback>`;
+    llmPrompt += `\n<projectPlan>${project.projectPlan}</projectPlan>`;
+    llmPrompt += `\n<tasks>${openTasks.map(describeTask).join('\n')}</tasks>`;
+    if (approvedTasks.length) {
+      llmPrompt += `\n<approvedTasks>${approvedTasks.map(describeTask).join('\n')}</approvedTasks>`;
+    }
+    llmPrompt += `\n<outputFormat>Return your output as JSON formatted according to the following schema: ${JSON.stringify(refinementSchema, null, 2)}</outputFormat>`;
+
+    const modelProvider = await loadLanguageModel(provider, model);
+    let output: PlanRefinementOutput;
+    try {
+      const { object } = await generateObject({
+        model: modelProvider,
+        schema: refinementSchema,
+        prompt: llmPrompt,
+      });
+      output = object;
+    } catch (err: any) {
+      throw toLLMError(err, provider, model, "Failed to refine project plan due to an unexpected error");
+    }
+
+    return this.transaction(() => {
+      // Diff against the tasks as they are now, in case they changed while the model was generating
+      const project = this.findRefinableProject(projectId);
+      const refinement: PlanRefinement = {
+        proposalId: randomUUID(),
+        feedback,
+        projectPlan: output.projectPlan,
+        ...this.diffRefinedTasks(project, output.tasks),
+        createdAt: new Date().toISOString(),
+      };
+      project.pendingRefinement = refinement;
+
+      const planChanged = refinement.projectPlan !== project.projectPlan;
+      const hasChanges = planChanged || refinement.added.length + refinement.removed.length + refinement.modified.length > 0;
+      return {
+        projectId,
+        ...refinement,
+        message: `Proposed adding ${refinement.added.length}, removing ${refinement.removed.length} and changing ${refinement.modified.length} task(s) in project ${projectId}${planChanged ? ", with a revised plan" : ""}. ` +
+          (hasChanges
+            ? `Review the changes, then call apply_plan_refinement with proposalId ${refinement.proposalId} to apply them.`
+            : "There is nothing to apply."),
+      };
+    }, [projectId]);
+  }
+
+  /**
+   * Applies the changes of a refine_project_plan proposal in a single write.
+   * @throws {ProposalNotFound} If the project has no pending proposal with this ID
+   * @throws {ProposalOutdated} If a task the proposal touches was changed or approved since
+   */
+  public async applyPlanRefinement(projectId: string, proposalId: string): Promise<ApplyPlanRefinementSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const project = this.findRefinableProject(projectId);
+      const refinement = project.pendingRefinement;
+      if (!refinement || refinement.proposalId !== proposalId) {
         throw new AppError(
-          `Invalid model: ${model} is not available for ${provider}`,
-          AppErrorCode.InvalidModel,
-          err
+          `No pending plan refinement ${proposalId} for project ${projectId}`,
+          AppErrorCode.ProposalNotFound
         );
       }
-      // For unknown errors, preserve the original error but wrap it
+
+      // Only apply the proposal to the tasks it was made for
+      const outdated = (taskId: string) => new AppError(
+        `Task ${taskId} changed after plan refinement ${proposalId} was proposed. Call refine_project_plan again.`,
+        AppErrorCode.ProposalOutdated
+      );
+      const removedIds = refinement.removed.map((r) => r.id);
+      for (const taskId of removedIds) {
+        const task = project.tasks.find((t) => t.id === taskId);
+        if (!task || !this.isRemovableByRefinement(project, task)) {
+          throw outdated(taskId);
+        }
+      }
+      for (const { id, changes } of refinement.modified) {
+        const task = project.tasks.find((t) => t.id === id);
+        if (!task || task.approved || removedIds.includes(id)) {
+          throw outdated(id);
+        }
+        for (const [field, change] of Object.entries(changes)) {
+          if (task[field as RefinableTaskField] !== change.from) {
+            throw outdated(id);
+          }
+        }
+      }
+
+      const now = new Date().toISOString();
+      for (const { id, changes } of refinement.modified) {
+        const task = project.tasks.find((t) => t.id === id)!;
+        for (const [field, change] of Object.entries(changes)) {
+          task[field as RefinableTaskField] = change.to;
+        }
+        this.touch(project, task, now);
+        this.recordHistoryEvent(project, id, "updated", { changes });
+      }
+
+      // Subtasks of removed tasks move up to the nearest remaining ancestor
+      const removedTasks = project.tasks.filter((t) => removedIds.includes(t.id));
+      for (const task of project.tasks) {
+        if (removedIds.includes(task.id) || !task.parentId || !removedIds.includes(task.parentId)) continue;
+        let parentId: string | undefined = task.parentId;
+        while (parentId && removedIds.includes(parentId)) {
+          parentId = project.tasks.find((t) => t.id === parentId)?.parentId;
+        }
+        if (parentId) {
+          task.parentId = parentId;
+        } else {
+          delete task.parentId;
+        }
+      }
+      project.tasks = project.tasks.filter((t) => !removedIds.includes(t.id));
+      for (const task of removedTasks) {
+        this.recordHistoryEvent(project, task.id, "deleted", { title: task.title });
+      }
+      for (const task of project.tasks) {
+        if (task.dependsOn?.some((depId) => removedIds.includes(depId))) {
+          task.dependsOn = task.dependsOn.filter((depId) => !removedIds.includes(depId));
+        }
+      }
+
+      const newTasks = refinement.added.map((taskDef) => this.createTaskFromDefinition(taskDef, now));
+      project.tasks.push(...newTasks);
+      for (const task of newTasks) {
+        this.recordHistoryEvent(project, task.id, "created", { title: task.title });
+      }
+
+      project.projectPlan = refinement.projectPlan;
+      delete project.pendingRefinement;
+      this.touch(project, undefined, now);
+
+      return {
+        projectId,
+        addedTaskIds: newTasks.map((t) => t.id),
+        removedTaskIds: removedIds,
+        modifiedTaskIds: refinement.modified.map((m) => m.id),
+        message: `Applied plan refinement ${proposalId} to project ${projectId}: added ${newTasks.length}, removed ${removedIds.length} and changed ${refinement.modified.length} task(s).`,
+      };
+    }, [projectId]);
+  }
+
+  /**
+   * @throws {ProjectNotFound | ProjectAlreadyCompleted} If the project can't be refined
+   */
+  private findRefinableProject(projectId: string): Project {
+    const project = this.data.projects.find((p) => p.projectId === projectId);
+    if (!project) {
+      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+    }
+    if (project.completed) {
+      throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+    }
+    return project;
+  }
+
+  /**
+   * A refinement may remove a task unless it or one of its subtasks is
+   * approved, so approved tasks never change, not even their parent.
+   */
+  private isRemovableByRefinement(project: Project, task: Task): boolean {
+    const subtaskIds = this.getDescendantIds(project.tasks, task.id);
+    return !task.approved && !project.tasks.some((t) => t.approved && subtaskIds.includes(t.id));
+  }
+
+  /**
+   * Compares the tasks returned by the model with the project's tasks.
+   * Listed tasks with a known ID are kept, with any edited fields recorded
+   * as changes; tasks without a known ID are new; unapproved tasks that are
+   * not listed are removed. Entries for approved tasks are ignored.
+   */
+  private diffRefinedTasks(
+    project: Project,
+    refinedTasks: PlanRefinementOutput["tasks"]
+  ): Pick<PlanRefinement, "added" | "removed" | "modified"> {
+    const added: PlanRefinement["added"] = [];
+    const modified: PlanRefinement["modified"] = [];
+    const listedIds = new Set<string>();
+
+    for (const refined of refinedTasks) {
+      const task = refined.id ? project.tasks.find((t) => t.id === refined.id) : undefined;
+      if (task?.approved) {
+        continue;
+      }
+      if (!task || listedIds.has(task.id)) {
+        added.push({
+          title: refined.title,
+          description: refined.description,
+          ...(refined.toolRecommendations ? { toolRecommendations: refined.toolRecommendations } : {}),
+          ...(refined.ruleRecommendations ? { ruleRecommendations: refined.ruleRecommendations } : {}),
+        });
+        continue;
+      }
+
+      listedIds.add(task.id);
+      const changes: PlanRefinement["modified"][number]["changes"] = {};
+      for (const field of REFINABLE_TASK_FIELDS) {
+        const value = refined[field];
+        if (value !== undefined && value !== task[field]) {
+          changes[field] = { from: task[field], to: value };
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        modified.push({ id: task.id, changes });
+      }
+    }
+
+    const removed = project.tasks
+      .filter((t) => !listedIds.has(t.id) && this.isRemovableByRefinement(project, t))
+      .map((t) => ({ id: t.id, title: t.title }));
+
+    return { added, removed, modified };
+  }
+
+  /**
+   * Looks up a task to decompose. Approved tasks are final, and a task can
+   * only be replaced while it has no subtasks of its own.
+   */
+  private findDecomposableTask(
+    projectId: string,
+    taskId: string,
+    mode: DecomposeMode
+  ): { project: Project; task: Task } {
+    const project = this.data.projects.find((p) => p.projectId === projectId);
+    if (!project) {
+      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+    }
+    if (project.completed) {
+      throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+    }
+
+    const task = project.tasks.find((t) => t.id === taskId);
+    if (!task) {
+      throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+    }
+    if (task.approved) {
+      throw new AppError('Cannot decompose an approved task', AppErrorCode.CannotModifyApprovedTask);
+    }
+    if (mode === "replace" && project.tasks.some((t) => t.parentId === taskId)) {
       throw new AppError(
-        "Failed to generate project plan due to an unexpected error",
-        AppErrorCode.LLMGenerationError,
-        err
+        `Cannot replace task ${taskId} because it has subtasks. Decompose it in "subtasks" mode instead.`,
+        AppErrorCode.InvalidArgument
       );
     }
+    return { project, task };
   }
 
-  public async getNextTask(projectId: string): Promise<OpenTaskSuccessData | { message: string }> {
+  /**
+   * Returns the first task of a project that isn't done and approved.
+   * @param humanApproval Whether the caller must leave approval to a human,
+   *   in which case a done task comes with instructions to wait for it
+   */
+  public async getNextTask(projectId: string, humanApproval = false): Promise<OpenTaskSuccessData | { message: string }> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    await this.reloadFromDisk([projectId]);
     
     const proj = this.data.projects.find((p) => p.projectId === projectId);
     if (!proj) {
@@ -280,7 +1295,7 @@ export class TaskManager {
       throw new AppError('Project has no tasks', AppErrorCode.TaskNotFound);
     }
 
-    const nextTask = proj.tasks.find((t) => !(t.status === "done" && t.approved));
+    const nextTask = this.findNextTask(proj, () => true);
     if (!nextTask) {
       // all tasks done and approved?
       const allDoneAndApproved = proj.tasks.every((t) => t.status === "done" && t.approved);
@@ -289,87 +1304,332 @@ export class TaskManager {
           message: `All tasks have been completed and approved. Awaiting project completion approval.`
         };
       }
-      throw new AppError('No incomplete or unapproved tasks found', AppErrorCode.TaskNotFound);
-    }
+      throw new AppError('No incomplete or unapproved tasks found', AppErrorCode.TaskNotFound);
+    }
+
+    let message: string | undefined;
+    if (nextTask.status === "done") {
+      if (humanApproval) {
+        message = `Task ${nextTask.id} is done and awaiting human approval. Do not approve it yourself; wait for the user to approve it (for example with \`taskqueue approve ${proj.projectId} ${nextTask.id}\`) before continuing.`;
+      }
+    } else if (nextTask.reviewFeedback) {
+      message = `This task was sent back by a reviewer. Address the feedback before marking it done again: ${nextTask.reviewFeedback}`;
+    }
+
+    return {
+      projectId: proj.projectId,
+      task: { ...nextTask },
+      ...(message ? { message } : {}),
+    };
+  }
+
+  /**
+   * Assigns the next available task of a project to an agent, in one locked
+   * update so two agents never claim the same task. Expired leases are
+   * released first. An agent that already holds a live lease in the project
+   * gets that task back with a renewed lease.
+   */
+  public async claimNextTask(
+    projectId: string,
+    agentId: string,
+    leaseSeconds: number = DEFAULT_LEASE_SECONDS
+  ): Promise<ClaimTaskSuccessData | { message: string }> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
+
+      const now = new Date();
+      const nowIso = now.toISOString();
+      this.releaseExpiredLeases(proj, nowIso);
+
+      const task =
+        proj.tasks.find((t) => t.assignee === agentId && this.hasLiveLease(t, nowIso) && t.status !== "done") ??
+        this.findNextTask(proj, (t) => t.status !== "done" && !this.hasLiveLease(t, nowIso));
+      if (!task) {
+        return {
+          message: `No tasks in project ${projectId} are available to claim. Remaining tasks are claimed by other agents, blocked by dependencies, or awaiting approval.`
+        };
+      }
+
+      const alreadyClaimed = task.assignee === agentId && this.hasLiveLease(task, nowIso);
+      task.assignee = agentId;
+      task.leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000).toISOString();
+      this.touch(proj, task, nowIso);
+      if (!alreadyClaimed) {
+        this.recordHistoryEvent(proj, task.id, "claimed", { assignee: agentId });
+      }
+      if (task.status === "not started") {
+        task.status = "in progress";
+        this.applyStatusTimestamps(task, nowIso);
+        this.recordHistoryEvent(proj, task.id, "status_changed", { from: "not started", to: "in progress" });
+      }
+
+      return {
+        projectId: proj.projectId,
+        task: { ...task },
+        message: `Task ${task.id} is claimed by ${agentId} until ${task.leaseExpiresAt}. Call heartbeat_task before then to keep working on it.`,
+      };
+    }, [projectId]);
+  }
+
+  /**
+   * Extends the lease an agent holds on a task.
+   * @throws {LeaseNotHeld} If the task is not claimed by the agent or the lease already expired
+   */
+  public async heartbeatTask(
+    projectId: string,
+    taskId: string,
+    agentId: string,
+    leaseSeconds: number = DEFAULT_LEASE_SECONDS
+  ): Promise<HeartbeatTaskSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
+      const task = proj.tasks.find((t) => t.id === taskId);
+      if (!task) {
+        throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+      }
+
+      const now = new Date();
+      if (task.assignee !== agentId || !this.hasLiveLease(task, now.toISOString())) {
+        throw new AppError(
+          task.assignee === agentId
+            ? `The lease of ${agentId} on task ${taskId} has expired. Claim a task again with claim_next_task.`
+            : `Task ${taskId} is not claimed by ${agentId}`,
+          AppErrorCode.LeaseNotHeld
+        );
+      }
+
+      task.leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000).toISOString();
+      return {
+        projectId,
+        taskId,
+        assignee: agentId,
+        leaseExpiresAt: task.leaseExpiresAt,
+      };
+    }, [projectId]);
+  }
+
+  public async approveTaskCompletion(projectId: string, taskId: string): Promise<ApproveTaskSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
+
+      const task = proj.tasks.find((t) => t.id === taskId);
+      if (!task) {
+        throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+      }
+
+      if (task.status !== "done") {
+        throw new AppError('Task not done yet', AppErrorCode.TaskNotDone);
+      }
+
+      if (task.approved) {
+        throw new AppError('Task is already approved', AppErrorCode.TaskAlreadyApproved);
+      }
+
+      const unapprovedSubtaskIds = this.getSubtasks(proj, task.id).filter((t) => !t.approved).map((t) => t.id);
+      if (unapprovedSubtaskIds.length > 0) {
+        throw new AppError(
+          `Task ${taskId} cannot be approved before its subtasks: ${unapprovedSubtaskIds.join(", ")}`,
+          AppErrorCode.SubtasksNotDone,
+          { subtaskIds: unapprovedSubtaskIds }
+        );
+      }
+
+      const now = new Date().toISOString();
+      task.approved = true;
+      task.approvedAt = now;
+      delete task.reviewFeedback;
+      this.touch(proj, task, now);
+      this.recordHistoryEvent(proj, task.id, "approved");
+
+      return {
+        projectId: proj.projectId,
+        task: {
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          completedDetails: task.completedDetails,
+          approved: task.approved,
+        },
+      };
+    }, [projectId]);
+  }
+
+  public async rejectTaskCompletion(
+    projectId: string,
+    taskId: string,
+    reason: string
+  ): Promise<RejectTaskSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
+
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
 
-    return {
-      projectId: proj.projectId,
-      task: { ...nextTask },
-    };
+      const task = proj.tasks.find((t) => t.id === taskId);
+      if (!task) {
+        throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+      }
+
+      if (task.approved) {
+        throw new AppError('Cannot reject an approved task', AppErrorCode.TaskAlreadyApproved);
+      }
+
+      if (task.status !== "done") {
+        throw new AppError('Task not done yet', AppErrorCode.TaskNotDone);
+      }
+
+      this.assertValidStatusTransition(task, "in progress");
+      const now = new Date().toISOString();
+      task.status = "in progress";
+      task.reviewFeedback = reason;
+      this.applyStatusTimestamps(task, now);
+      this.touch(proj, task, now);
+      this.recordHistoryEvent(proj, task.id, "rejected", { reason, from: "done", to: "in progress" });
+      this.reopenDoneAncestors(proj, task, now);
+
+      return {
+        projectId: proj.projectId,
+        task: {
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          completedDetails: task.completedDetails,
+          reviewFeedback: task.reviewFeedback,
+        },
+        message: `Task ${taskId} was rejected and moved back to "in progress".`,
+      };
+    }, [projectId]);
   }
 
-  public async approveTaskCompletion(projectId: string, taskId: string): Promise<ApproveTaskSuccessData> {
+  public async approveProjectCompletion(projectId: string): Promise<ApproveProjectSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
-
-    const proj = this.data.projects.find((p) => p.projectId === projectId);
-    if (!proj) {
-      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
-    }
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
 
-    const task = proj.tasks.find((t) => t.id === taskId);
-    if (!task) {
-      throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
-    }
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
 
-    if (task.status !== "done") {
-      throw new AppError('Task not done yet', AppErrorCode.TaskNotDone);
-    }
+      const allDone = proj.tasks.every((t) => t.status === "done");
+      if (!allDone) {
+        throw new AppError('Not all tasks are done', AppErrorCode.TasksNotAllDone);
+      }
 
-    if (task.approved) {
-      throw new AppError('Task is already approved', AppErrorCode.TaskAlreadyApproved);
-    }
+      const allApproved = proj.tasks.every((t) => t.status === "done" && t.approved);
+      if (!allApproved) {
+        throw new AppError('Not all done tasks are approved', AppErrorCode.TasksNotAllApproved);
+      }
 
-    task.approved = true;
-    await this.saveTasks();
+      const now = new Date().toISOString();
+      proj.completed = true;
+      proj.completedAt = now;
+      this.touch(proj, undefined, now);
 
-    return {
-      projectId: proj.projectId,
-      task: {
-        id: task.id,
-        title: task.title,
-        description: task.description,
-        completedDetails: task.completedDetails,
-        approved: task.approved,
-      },
-    };
+      return {
+        projectId: proj.projectId,
+        message: "Project is fully completed and approved.",
+      };
+    }, [projectId]);
   }
 
-  public async approveProjectCompletion(projectId: string): Promise<ApproveProjectSuccessData> {
+  public async updateProject(
+    projectId: string,
+    updates: { autoApprove?: boolean; orderingPolicy?: OrderingPolicy }
+  ): Promise<UpdateProjectSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
 
-    const proj = this.data.projects.find((p) => p.projectId === projectId);
-    if (!proj) {
-      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
-    }
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
 
-    if (proj.completed) {
-      throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
-    }
+      const now = new Date().toISOString();
+      if (updates.autoApprove !== undefined) proj.autoApprove = updates.autoApprove;
+      if (updates.orderingPolicy !== undefined) proj.orderingPolicy = updates.orderingPolicy;
+      this.touch(proj, undefined, now);
+
+      // Tasks already awaiting approval are approved as soon as auto-approval is enabled
+      let approvedCount = 0;
+      if (updates.autoApprove) {
+        for (const task of proj.tasks) {
+          if (task.status === "done" && !task.approved) {
+            task.approved = true;
+            task.approvedAt = now;
+            this.touch(proj, task, now);
+            approvedCount += 1;
+            this.recordHistoryEvent(proj, task.id, "approved", { autoApproved: true });
+          }
+        }
+      }
 
-    const allDone = proj.tasks.every((t) => t.status === "done");
-    if (!allDone) {
-      throw new AppError('Not all tasks are done', AppErrorCode.TasksNotAllDone);
-    }
+      const messages: string[] = [];
+      if (updates.autoApprove !== undefined) {
+        messages.push(`Auto-approval ${proj.autoApprove ? "enabled" : "disabled"} for project ${projectId}.`);
+      }
+      if (updates.orderingPolicy !== undefined) {
+        messages.push(`Ordering policy of project ${projectId} set to ${proj.orderingPolicy}.`);
+      }
+      if (approvedCount > 0) {
+        messages.push(`${approvedCount} task(s) awaiting approval were approved.`);
+      }
 
-    const allApproved = proj.tasks.every((t) => t.status === "done" && t.approved);
-    if (!allApproved) {
-      throw new AppError('Not all done tasks are approved', AppErrorCode.TasksNotAllApproved);
-    }
+      return {
+        projectId: proj.projectId,
+        autoApprove: proj.autoApprove === true,
+        orderingPolicy: proj.orderingPolicy ?? "sequence",
+        message: messages.join(" "),
+      };
+    }, [projectId]);
+  }
 
-    proj.completed = true;
-    await this.saveTasks();
+  public async deleteProject(projectId: string): Promise<DeleteProjectSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const projectIndex = this.data.projects.findIndex((p) => p.projectId === projectId);
+      if (projectIndex === -1) {
+        throw new AppError(`Project not found: ${projectId}`, AppErrorCode.ProjectNotFound);
+      }
 
-    return {
-      projectId: proj.projectId,
-      message: "Project is fully completed and approved.",
-    };
+      this.data.projects.splice(projectIndex, 1);
+
+      return {
+        status: "project_deleted" as const,
+        message: `Project ${projectId} has been deleted.`,
+      };
+    }, [projectId]);
   }
 
   public async openTaskDetails(projectId: string, taskId: string): Promise<OpenTaskSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    await this.reloadFromDisk([projectId]);
 
     const project = this.data.projects.find((p) => p.projectId === projectId);
     if (!project) {
@@ -387,7 +1647,11 @@ export class TaskManager {
     };
   }
 
-  public async listProjects(state?: TaskState): Promise<ListProjectsSuccessData> {
+  public async listProjects(
+    state?: TaskState,
+    sortBy?: ProjectSortField,
+    sortOrder?: SortOrder
+  ): Promise<ListProjectsSuccessData> {
     await this.ensureInitialized();
     await this.reloadFromDisk();
 
@@ -412,6 +1676,10 @@ export class TaskManager {
       });
     }
 
+    if (sortBy) {
+      filteredProjects = this.sortByTimestamp(filteredProjects, sortBy, sortOrder);
+    }
+
     return {
       message: `Current projects in the system:`,
       projects: filteredProjects.map((p) => ({
@@ -420,44 +1688,65 @@ export class TaskManager {
         totalTasks: p.tasks.length,
         completedTasks: p.tasks.filter((t) => t.status === "done").length,
         approvedTasks: p.tasks.filter((t) => t.approved).length,
+        createdAt: p.createdAt,
+        updatedAt: p.updatedAt,
+        completedAt: p.completedAt,
       })),
     };
   }
 
-  public async listTasks(projectId?: string, state?: TaskState): Promise<ListTasksSuccessData> {
+  /**
+   * Returns whether a task is in a list_tasks state ("all" or undefined match every task).
+   */
+  private isInTaskState(task: Task, state?: TaskState): boolean {
+    switch (state) {
+      case "open":
+        return !task.approved;
+      case "completed":
+        return task.status === "done" && task.approved;
+      case "pending_approval":
+        return task.status === "done" && !task.approved;
+      default:
+        return true;
+    }
+  }
+
+  public async listTasks(
+    projectId?: string,
+    state?: TaskState,
+    sortBy?: TaskSortField,
+    sortOrder?: SortOrder,
+    assignee?: string
+  ): Promise<ListTasksSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
 
     if (state && !["all", "open", "completed", "pending_approval"].includes(state)) {
       throw new AppError(`Invalid state filter: ${state}`, AppErrorCode.InvalidState);
     }
 
-    let allTasks: Task[] = [];
-
-    if (projectId) {
-      const proj = this.data.projects.find((p) => p.projectId === projectId);
-      if (!proj) {
-        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
-      }
-      allTasks = [...proj.tasks];
+    // Stores that can filter tasks themselves avoid loading every project
+    let projectTasks: ProjectTasks[];
+    if (this.store.listTasks) {
+      projectTasks = await this.store.listTasks(projectId || undefined, state);
     } else {
-      // Collect tasks from all projects
-      allTasks = this.data.projects.flatMap((p) => p.tasks);
+      await this.reloadFromDisk();
+      projectTasks = this.data.projects
+        .filter((p) => !projectId || p.projectId === projectId)
+        .map((project) => ({ project, tasks: project.tasks.filter((task) => this.isInTaskState(task, state)) }));
+    }
+    if (projectId && projectTasks.length === 0) {
+      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
     }
 
-    if (state && state !== "all") {
-      allTasks = allTasks.filter((task) => {
-        switch (state) {
-          case "open":
-            return !task.approved;
-          case "completed":
-            return task.status === "done" && task.approved;
-          case "pending_approval":
-            return task.status === "done" && !task.approved;
-          default:
-            return true;
-        }
-      });
+    // Each project's tasks in its own project's order
+    let allTasks = projectTasks.flatMap(({ project, tasks }) => this.orderTasks(project, tasks));
+
+    if (assignee !== undefined) {
+      allTasks = allTasks.filter((task) => task.assignee === assignee);
+    }
+
+    if (sortBy) {
+      allTasks = this.sortByTimestamp(allTasks, sortBy, sortOrder);
     }
 
     return {
@@ -468,47 +1757,41 @@ export class TaskManager {
 
   public async addTasksToProject(
     projectId: string,
-    tasks: { title: string; description: string; toolRecommendations?: string; ruleRecommendations?: string }[]
+    tasks: TaskDefinition[]
   ): Promise<AddTasksSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
 
-    const proj = this.data.projects.find((p) => p.projectId === projectId);
-    if (!proj) {
-      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
-    }
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
 
-    if (proj.completed) {
-      throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
-    }
+      const now = new Date().toISOString();
+      const newTasks = tasks.map((taskDef) => this.createTaskFromDefinition(taskDef, now));
+
+      this.resolveNewTaskDependencies(proj, tasks, newTasks);
+      this.assertNoDependencyCycles([...proj.tasks, ...newTasks]);
+      this.resolveNewTaskParents(proj, tasks, newTasks);
+      proj.tasks = this.arrangeNewTasks(proj.tasks, newTasks);
+      this.touch(proj, undefined, now);
+      for (const task of newTasks) {
+        this.recordHistoryEvent(proj, task.id, "created", { title: task.title });
+        this.reopenDoneAncestors(proj, task, now);
+      }
 
-    const newTasks: Task[] = [];
-    for (const taskDef of tasks) {
-      this.taskCounter += 1;
-      const newTask: Task = {
-        id: `task-${this.taskCounter}`,
-        title: taskDef.title,
-        description: taskDef.description,
-        status: "not started",
-        approved: false,
-        completedDetails: "",
-        toolRecommendations: taskDef.toolRecommendations,
-        ruleRecommendations: taskDef.ruleRecommendations,
+      return {
+        newTasks: newTasks.map((t) => ({
+          id: t.id,
+          title: t.title,
+          description: t.description,
+        })),
+        message: `Added ${newTasks.length} tasks to project ${projectId}`,
       };
-      newTasks.push(newTask);
-      proj.tasks.push(newTask);
-    }
-
-    await this.saveTasks();
-
-    return {
-      newTasks: newTasks.map((t) => ({
-        id: t.id,
-        title: t.title,
-        description: t.description,
-      })),
-      message: `Added ${newTasks.length} tasks to project ${projectId}`,
-    };
+    }, [projectId]);
   }
 
   public async updateTask(
@@ -519,72 +1802,425 @@ export class TaskManager {
       description?: string;
       toolRecommendations?: string;
       ruleRecommendations?: string;
+      priority?: TaskPriority;
       status?: "not started" | "in progress" | "done";
       completedDetails?: string;
+      dependsOn?: string[];
     }
   ): Promise<Task> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
 
-    const proj = this.data.projects.find((p) => p.projectId === projectId);
-    if (!proj) {
-      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
-    }
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
 
-    if (proj.completed) {
-      throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
-    }
+      const task = proj.tasks.find((t) => t.id === taskId);
+      if (!task) {
+        throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+      }
 
-    const task = proj.tasks.find((t) => t.id === taskId);
-    if (!task) {
-      throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
-    }
+      if (task.approved) {
+        throw new AppError('Cannot modify an approved task', AppErrorCode.CannotModifyApprovedTask);
+      }
 
-    if (task.approved) {
-      throw new AppError('Cannot modify an approved task', AppErrorCode.CannotModifyApprovedTask);
-    }
+      if (updates.status !== undefined) {
+        this.assertValidStatusTransition(task, updates.status);
+        if (updates.status === "done" && task.status !== "done" && !updates.completedDetails) {
+          throw new AppError(
+            'completedDetails are required when marking a task as done',
+            AppErrorCode.InvalidArgument
+          );
+        }
+        if (updates.status === "done") {
+          const openSubtaskIds = this.getSubtasks(proj, task.id).filter((t) => t.status !== "done").map((t) => t.id);
+          if (openSubtaskIds.length > 0) {
+            throw new AppError(
+              `Task ${taskId} cannot be done before its subtasks: ${openSubtaskIds.join(", ")}`,
+              AppErrorCode.SubtasksNotDone,
+              { subtaskIds: openSubtaskIds }
+            );
+          }
+        }
+      }
+
+      let dependsOn: string[] | undefined;
+      if (updates.dependsOn !== undefined) {
+        dependsOn = [...new Set(updates.dependsOn)];
+        this.validateDependencyIds(proj, taskId, dependsOn);
+        this.assertNoDependencyCycles(
+          proj.tasks.map((t) => (t.id === taskId ? { ...t, dependsOn } : t))
+        );
+      }
 
-    // Apply updates
-    Object.assign(task, updates);
+      // Collect field edits before applying them so they can be recorded in the history
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      const editableFields = ["title", "description", "toolRecommendations", "ruleRecommendations", "priority", "completedDetails"] as const;
+      for (const field of editableFields) {
+        const value = updates[field];
+        if (value !== undefined && value !== task[field]) {
+          changes[field] = { from: task[field], to: value };
+        }
+      }
+      if (dependsOn !== undefined && dependsOn.join() !== (task.dependsOn ?? []).join()) {
+        changes.dependsOn = { from: task.dependsOn ?? [], to: dependsOn };
+      }
+      const previousStatus = task.status;
+
+      // Apply updates, field by field, so callers cannot overwrite state such as approval
+      if (updates.title !== undefined) task.title = updates.title;
+      if (updates.description !== undefined) task.description = updates.description;
+      if (updates.toolRecommendations !== undefined) task.toolRecommendations = updates.toolRecommendations;
+      if (updates.ruleRecommendations !== undefined) task.ruleRecommendations = updates.ruleRecommendations;
+      if (updates.priority !== undefined) task.priority = updates.priority;
+      if (updates.completedDetails !== undefined) task.completedDetails = updates.completedDetails;
+      if (updates.status !== undefined) task.status = updates.status;
+      if (dependsOn !== undefined) task.dependsOn = dependsOn;
+
+      const now = new Date().toISOString();
+      this.touch(proj, task, now);
+      if (task.status !== previousStatus) {
+        this.applyStatusTimestamps(task, now);
+      }
+      // A finished task no longer needs a lease; the assignee stays on record
+      if (task.status === "done") {
+        delete task.leaseExpiresAt;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        this.recordHistoryEvent(proj, task.id, "updated", { changes });
+      }
+      if (task.status !== previousStatus) {
+        this.recordHistoryEvent(proj, task.id, "status_changed", { from: previousStatus, to: task.status });
+      }
+      if (previousStatus === "done" && task.status !== "done") {
+        this.reopenDoneAncestors(proj, task, now);
+      }
+
+      // Completing a task in an auto-approve project approves it in the same write
+      if (updates.status === "done" && proj.autoApprove) {
+        task.approved = true;
+        task.approvedAt = now;
+        this.recordHistoryEvent(proj, task.id, "approved", { autoApproved: true });
+      }
 
-    await this.saveTasks();
-    return task;
+      return task;
+    }, [projectId]);
   }
 
   public async deleteTask(projectId: string, taskId: string): Promise<DeleteTaskSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
 
-    const proj = this.data.projects.find((p) => p.projectId === projectId);
-    if (!proj) {
-      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
+
+      const taskIndex = proj.tasks.findIndex((t) => t.id === taskId);
+      if (taskIndex === -1) {
+        throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+      }
+
+      const task = proj.tasks[taskIndex];
+      if (task.approved) {
+        throw new AppError('Cannot delete an approved task', AppErrorCode.CannotModifyApprovedTask);
+      }
+
+      // Subtasks are deleted along with their parent
+      const deletedIds = [taskId, ...this.getDescendantIds(proj.tasks, taskId)];
+      const deletedTasks = deletedIds.map((id) => proj.tasks.find((t) => t.id === id)!);
+      const approvedSubtask = deletedTasks.find((t) => t.approved);
+      if (approvedSubtask) {
+        throw new AppError(
+          `Cannot delete task ${taskId}: its subtask ${approvedSubtask.id} is approved`,
+          AppErrorCode.CannotModifyApprovedTask
+        );
+      }
+
+      proj.tasks = proj.tasks.filter((t) => !deletedIds.includes(t.id));
+      this.touch(proj);
+      for (const deleted of deletedTasks) {
+        this.recordHistoryEvent(proj, deleted.id, "deleted", { title: deleted.title });
+      }
+      // Tasks that depended on the deleted tasks are no longer blocked by them
+      for (const t of proj.tasks) {
+        if (t.dependsOn?.some((depId) => deletedIds.includes(depId))) {
+          t.dependsOn = t.dependsOn.filter((depId) => !deletedIds.includes(depId));
+        }
+      }
+
+      return {
+        message: deletedIds.length > 1
+          ? `Task ${taskId} and ${deletedIds.length - 1} subtask(s) deleted from project ${projectId}`
+          : `Task ${taskId} deleted from project ${projectId}`,
+      };
+    }, [projectId]);
+  }
+
+  /**
+   * Puts a project's tasks in a new order. Tasks keep their IDs, and each
+   * moved task gets a "reordered" history event.
+   * @param taskIds Every task ID of the project, in the new order
+   * @throws {InvalidArgument} If taskIds is not exactly the project's task IDs
+   * @throws {InvalidTaskOrder} If a task would move ahead of a task it depends on
+   */
+  public async reorderTasks(projectId: string, taskIds: string[]): Promise<ReorderTasksSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const proj = this.data.projects.find((p) => p.projectId === projectId);
+      if (!proj) {
+        throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+      }
+
+      if (proj.completed) {
+        throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
+      }
+
+      const previousOrder = proj.tasks.map((t) => t.id);
+      const unknownIds = taskIds.filter((id) => !previousOrder.includes(id));
+      if (unknownIds.length > 0) {
+        throw new AppError(
+          `Tasks not found in project ${projectId}: ${unknownIds.join(", ")}`,
+          AppErrorCode.TaskNotFound
+        );
+      }
+      if (new Set(taskIds).size !== taskIds.length || taskIds.length !== previousOrder.length) {
+        throw new AppError(
+          `taskIds must list each of the ${previousOrder.length} tasks in project ${projectId} exactly once`,
+          AppErrorCode.InvalidArgument
+        );
+      }
+
+      // A task may not move ahead of a prerequisite it used to come after
+      const newIndex = new Map(taskIds.map((id, index) => [id, index]));
+      const previousIndex = new Map(previousOrder.map((id, index) => [id, index]));
+      for (const task of proj.tasks) {
+        for (const depId of task.dependsOn ?? []) {
+          if (!newIndex.has(depId)) continue;
+          const nowAhead = newIndex.get(task.id)! < newIndex.get(depId)!;
+          const wasAhead = previousIndex.get(task.id)! < previousIndex.get(depId)!;
+          if (nowAhead && !wasAhead) {
+            throw new AppError(
+              `Cannot move task ${task.id} ahead of task ${depId}, which it depends on`,
+              AppErrorCode.InvalidTaskOrder,
+              { taskId: task.id, dependsOn: depId }
+            );
+          }
+        }
+      }
+
+      const movedIds = this.findMovedTaskIds(previousOrder, taskIds);
+      if (movedIds.length > 0) {
+        const tasksById = new Map(proj.tasks.map((t) => [t.id, t]));
+        proj.tasks = taskIds.map((id) => tasksById.get(id)!);
+        this.touch(proj);
+        for (const id of movedIds) {
+          this.recordHistoryEvent(proj, id, "reordered", {
+            from: previousIndex.get(id)! + 1,
+            to: newIndex.get(id)! + 1,
+          });
+        }
+      }
+
+      return {
+        projectId: proj.projectId,
+        taskIds: proj.tasks.map((t) => t.id),
+        message: movedIds.length > 0
+          ? `Moved ${movedIds.length} task(s) in project ${projectId}.`
+          : `Tasks in project ${projectId} are already in this order.`,
+      };
+    }, [projectId]);
+  }
+
+  /**
+   * Looks up a task to move or copy to another project, together with its
+   * subtasks. The same rules as for deleting a task apply to the source, and
+   * the target must be open.
+   * @returns The task followed by its subtasks at any depth, in project order
+   */
+  private findTransferableTasks(
+    sourceProjectId: string,
+    taskId: string,
+    targetProjectId: string,
+    action: "move" | "copy"
+  ): { source: Project; target: Project; tasks: Task[] } {
+    if (sourceProjectId === targetProjectId) {
+      throw new AppError(
+        `Task ${taskId} is already in project ${targetProjectId}`,
+        AppErrorCode.InvalidArgument
+      );
     }
 
-    if (proj.completed) {
+    const source = this.data.projects.find((p) => p.projectId === sourceProjectId);
+    if (!source) {
+      throw new AppError(`Project ${sourceProjectId} not found`, AppErrorCode.ProjectNotFound);
+    }
+    if (source.completed) {
       throw new AppError('Project is already completed', AppErrorCode.ProjectAlreadyCompleted);
     }
 
-    const taskIndex = proj.tasks.findIndex((t) => t.id === taskId);
-    if (taskIndex === -1) {
+    const task = source.tasks.find((t) => t.id === taskId);
+    if (!task) {
       throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
     }
-
-    const task = proj.tasks[taskIndex];
     if (task.approved) {
-      throw new AppError('Cannot delete an approved task', AppErrorCode.CannotModifyApprovedTask);
+      throw new AppError(`Cannot ${action} an approved task`, AppErrorCode.CannotModifyApprovedTask);
+    }
+    const subtaskIds = this.getDescendantIds(source.tasks, taskId);
+    const subtasks = source.tasks.filter((t) => subtaskIds.includes(t.id));
+    const approvedSubtask = subtasks.find((t) => t.approved);
+    if (approvedSubtask) {
+      throw new AppError(
+        `Cannot ${action} task ${taskId}: its subtask ${approvedSubtask.id} is approved`,
+        AppErrorCode.CannotModifyApprovedTask
+      );
+    }
+
+    const target = this.data.projects.find((p) => p.projectId === targetProjectId);
+    if (!target) {
+      throw new AppError(`Project ${targetProjectId} not found`, AppErrorCode.ProjectNotFound);
+    }
+    if (target.completed) {
+      throw new AppError(`Project ${targetProjectId} is already completed`, AppErrorCode.ProjectAlreadyCompleted);
     }
 
-    proj.tasks.splice(taskIndex, 1);
-    await this.saveTasks();
+    return { source, target, tasks: [task, ...subtasks] };
+  }
 
-    return {
-      message: `Task ${taskId} deleted from project ${projectId}`,
-    };
+  /**
+   * Prepares a task for another project: dependencies can't reach across
+   * projects, and a claim made in the source project doesn't carry over.
+   */
+  private detachFromProject(task: Task, now: string): void {
+    delete task.dependsOn;
+    delete task.assignee;
+    delete task.leaseExpiresAt;
+    task.updatedAt = now;
+  }
+
+  /**
+   * Appends events from another project to a project's history. They may be
+   * older than the events before them, but history stays append-only, which
+   * the SQLite store relies on to write only the new events. Events the
+   * project already has, from a task that was moved out of it and back, are
+   * skipped.
+   */
+  private importHistory(project: Project, events: TaskHistoryEvent[]): void {
+    const eventKey = (e: TaskHistoryEvent) => `${e.taskId}\n${e.type}\n${e.timestamp}`;
+    const existing = new Set((project.history ?? []).map(eventKey));
+    project.history = [...(project.history ?? []), ...events.filter((e) => !existing.has(eventKey(e)))];
+  }
+
+  /**
+   * Moves a task and its subtasks to another project, keeping their IDs,
+   * details and history. Their dependencies are dropped, as are dependencies
+   * on them in the source project.
+   */
+  public async moveTask(
+    sourceProjectId: string,
+    taskId: string,
+    targetProjectId: string
+  ): Promise<TransferTaskSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const { source, target, tasks } = this.findTransferableTasks(sourceProjectId, taskId, targetProjectId, "move");
+      const movedIds = tasks.map((t) => t.id);
+      const now = new Date().toISOString();
+
+      source.tasks = source.tasks.filter((t) => !movedIds.includes(t.id));
+      for (const t of source.tasks) {
+        if (t.dependsOn?.some((depId) => movedIds.includes(depId))) {
+          t.dependsOn = t.dependsOn.filter((depId) => !movedIds.includes(depId));
+        }
+      }
+      for (const task of tasks) {
+        this.detachFromProject(task, now);
+      }
+      // The moved task becomes a top-level task of the target project
+      delete tasks[0].parentId;
+      target.tasks.push(...tasks);
+
+      // The source keeps its events too, like it does for deleted tasks
+      const taskHistory = (source.history ?? []).filter((e) => movedIds.includes(e.taskId));
+      this.importHistory(target, structuredClone(taskHistory));
+      const details = { fromProjectId: sourceProjectId, toProjectId: targetProjectId };
+      for (const id of movedIds) {
+        this.recordHistoryEvent(source, id, "moved", details);
+        this.recordHistoryEvent(target, id, "moved", details);
+      }
+      this.touch(source, undefined, now);
+      this.touch(target, undefined, now);
+
+      return {
+        sourceProjectId,
+        targetProjectId,
+        task: { ...tasks[0] },
+        message: `Task ${taskId}${tasks.length > 1 ? ` and ${tasks.length - 1} subtask(s)` : ""} moved from project ${sourceProjectId} to project ${targetProjectId}.`,
+      };
+    }, [sourceProjectId, targetProjectId]);
+  }
+
+  /**
+   * Copies a task and its subtasks to another project under new IDs, with
+   * their details and history. The originals stay where they are.
+   */
+  public async copyTask(
+    sourceProjectId: string,
+    taskId: string,
+    targetProjectId: string
+  ): Promise<TransferTaskSuccessData> {
+    await this.ensureInitialized();
+    return this.transaction(() => {
+      const { source, target, tasks } = this.findTransferableTasks(sourceProjectId, taskId, targetProjectId, "copy");
+      const now = new Date().toISOString();
+
+      const copyIds = new Map<string, string>();
+      for (const task of tasks) {
+        this.taskCounter += 1;
+        copyIds.set(task.id, `task-${this.taskCounter}`);
+      }
+      const copies = tasks.map((task) => {
+        const copy: Task = { ...structuredClone(task), id: copyIds.get(task.id)! };
+        this.detachFromProject(copy, now);
+        if (copy.parentId) copy.parentId = copyIds.get(copy.parentId);
+        return copy;
+      });
+      // The copy becomes a top-level task of the target project
+      delete copies[0].parentId;
+      target.tasks.push(...copies);
+
+      const taskHistory = (source.history ?? [])
+        .filter((e) => copyIds.has(e.taskId))
+        .map((e) => ({ ...structuredClone(e), taskId: copyIds.get(e.taskId)! }));
+      this.importHistory(target, taskHistory);
+      for (const [fromTaskId, toTaskId] of copyIds) {
+        const details = { fromProjectId: sourceProjectId, fromTaskId, toProjectId: targetProjectId, toTaskId };
+        this.recordHistoryEvent(source, fromTaskId, "copied", details);
+        this.recordHistoryEvent(target, toTaskId, "copied", details);
+      }
+      this.touch(target, undefined, now);
+
+      const copy = copies[0];
+      return {
+        sourceProjectId,
+        targetProjectId,
+        task: { ...copy },
+        message: `Task ${taskId}${tasks.length > 1 ? ` and ${tasks.length - 1} subtask(s)` : ""} copied from project ${sourceProjectId} to project ${targetProjectId} as ${copy.id}.`,
+      };
+    }, [sourceProjectId, targetProjectId]);
   }
 
   public async readProject(projectId: string): Promise<ReadProjectSuccessData> {
     await this.ensureInitialized();
-    await this.reloadFromDisk();
+    await this.reloadFromDisk([projectId]);
 
     const project = this.data.projects.find((p) => p.projectId === projectId);
     if (!project) {
@@ -597,7 +2233,38 @@ export class TaskManager {
       projectPlan: project.projectPlan,
       completed: project.completed,
       autoApprove: project.autoApprove,
+      orderingPolicy: project.orderingPolicy,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      completedAt: project.completedAt,
       tasks: project.tasks,
+      blockedTasks: project.tasks
+        .filter((t) => !(t.status === "done" && t.approved))
+        .map((t) => ({ taskId: t.id, blockedBy: this.getBlockingTaskIds(project, t) }))
+        .filter((b) => b.blockedBy.length > 0),
     };
   }
-} 
+
+  public async readTaskHistory(projectId: string, taskId?: string): Promise<TaskHistorySuccessData> {
+    await this.ensureInitialized();
+    await this.reloadFromDisk([projectId]);
+
+    const project = this.data.projects.find((p) => p.projectId === projectId);
+    if (!project) {
+      throw new AppError(`Project ${projectId} not found`, AppErrorCode.ProjectNotFound);
+    }
+
+    const history = project.history ?? [];
+    if (!taskId) {
+      return { projectId, events: history };
+    }
+
+    const events = history.filter((e) => e.taskId === taskId);
+    // Deleted tasks have no entry in project.tasks but keep their history
+    if (events.length === 0 && !project.tasks.some((t) => t.id === taskId)) {
+      throw new AppError(`Task ${taskId} not found`, AppErrorCode.TaskNotFound);
+    }
+
+    return { projectId, taskId, events };
+  }
+}
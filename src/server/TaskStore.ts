@@ -0,0 +1,111 @@
+import { Project, Task, TaskManagerFile, TaskState } from "../types/data.js";
+import { AppError, AppErrorCode } from "../types/errors.js";
+import { JsonFileTaskStore } from "./JsonFileTaskStore.js";
+import { InMemoryTaskStore } from "./InMemoryTaskStore.js";
+import { SqliteTaskStore, getSqlitePath } from "./SqliteTaskStore.js";
+
+/**
+ * Highest project and task numbers handed out so far, so new IDs continue
+ * after them.
+ */
+export interface IdCounters {
+  maxProjectId: number;
+  maxTaskId: number;
+}
+
+/**
+ * A project's tasks matching a TaskStore.listTasks filter, in stored order.
+ * The project comes without its tasks and history.
+ */
+export interface ProjectTasks {
+  project: Omit<Project, "tasks" | "history">;
+  tasks: Task[];
+}
+
+/**
+ * Storage backend used by TaskManager to persist projects and tasks.
+ * Implementations decide where the data lives. TaskManager works on
+ * TaskManagerFile snapshots: whole ones, or, with stores that implement the
+ * optional project-scoped methods, ones holding just the projects involved.
+ */
+export interface TaskStore {
+  /**
+   * Loads the current data. Returns empty data if nothing has been stored yet.
+   */
+  load(): Promise<TaskManagerFile>;
+
+  /**
+   * Replaces the stored data.
+   */
+  save(data: TaskManagerFile): Promise<void>;
+
+  /**
+   * Loads the current data, lets the mutator modify it in place and saves it,
+   * without any other update interleaving. If the mutator throws, nothing is
+   * saved and the error is propagated.
+   * @returns The mutator's return value
+   */
+  update<T>(mutator: (data: TaskManagerFile) => Promise<T> | T): Promise<T>;
+
+  /**
+   * Loads only the given projects, skipping IDs that don't exist.
+   * Optional; TaskManager falls back to load() for stores that read
+   * everything at once anyway.
+   */
+  loadProjects?(projectIds: string[]): Promise<TaskManagerFile>;
+
+  /**
+   * Like update, but the mutator only gets the given projects (those that
+   * exist), and only those are written back. The mutator may remove them or
+   * append new projects, which go after all stored projects. Since the
+   * snapshot is partial, the ID counters come from the store.
+   * Optional; TaskManager falls back to update().
+   */
+  updateProjects?<T>(
+    projectIds: string[],
+    mutator: (data: TaskManagerFile, counters: IdCounters) => Promise<T> | T
+  ): Promise<T>;
+
+  /**
+   * Returns the tasks in a state ("all" or undefined for every task), of one
+   * project or of all projects in stored order. Returns an empty list if the
+   * project doesn't exist.
+   * Optional; TaskManager falls back to filtering the result of load().
+   */
+  listTasks?(projectId: string | undefined, state: TaskState | undefined): Promise<ProjectTasks[]>;
+
+  /**
+   * Calls onChange whenever the stored data may have changed, including
+   * changes made by other processes such as the CLI. Calls can be spurious
+   * and come in bursts, so listeners should reload and compare.
+   * Stores that can only be changed in-process don't need to implement this.
+   * @returns A function that stops watching
+   */
+  watch?(onChange: () => void): () => void;
+}
+
+export type TaskStoreType = "json" | "sqlite" | "memory";
+
+export const TASK_STORE_TYPES: readonly TaskStoreType[] = ["json", "sqlite", "memory"];
+
+/**
+ * Creates the task store selected by configuration.
+ * @param type The store type, usually taken from the TASK_MANAGER_STORE environment variable
+ * @param filePath Path of the tasks file, used by file-based stores (see getSqlitePath for SQLite)
+ * @throws {ConfigurationError} If the store type is unknown
+ */
+export function createTaskStore(type: string, filePath: string): TaskStore {
+  switch (type) {
+    case "json":
+      return new JsonFileTaskStore(filePath);
+    case "sqlite":
+      return new SqliteTaskStore(getSqlitePath(filePath));
+    case "memory":
+      return new InMemoryTaskStore();
+    default:
+      throw new AppError(
+        `Unknown task store: ${type}. Must be one of: ${TASK_STORE_TYPES.join(", ")}`,
+        AppErrorCode.ConfigurationError
+      );
+  }
+}
@@ -0,0 +1,194 @@
+import * as fs from "node:fs/promises";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { AppError, AppErrorCode } from "../types/errors.js";
+
+export type Role = "read-only" | "worker" | "reviewer" | "admin";
+
+export const ROLES: readonly Role[] = ["read-only", "worker", "reviewer", "admin"];
+
+// Tools that only read projects and tasks
+const READ_TOOLS = [
+  "list_projects",
+  "read_project",
+  "list_tasks",
+  "read_task",
+  "read_task_history",
+  "get_next_task",
+];
+
+// Tools an agent uses to plan and carry out work
+const WORK_TOOLS = [
+  "create_project",
+  "generate_project_plan",
+  "accept_generated_plan",
+  "refine_project_plan",
+  "apply_plan_refinement",
+  "add_tasks_to_project",
+  "create_task",
+  "update_task",
+  "delete_task",
+  "reorder_tasks",
+  "move_task",
+  "copy_task",
+  "decompose_task",
+  "claim_next_task",
+  "heartbeat_task",
+];
+
+// Tools that sign off on work, kept apart from WORK_TOOLS so agents can't approve their own tasks
+const REVIEW_TOOLS = [
+  "approve_task",
+  "reject_task",
+  "finalize_project",
+];
+
+// Arguments that approve tasks as a side effect, allowed only to callers who may call approve_task
+const REVIEW_ARGUMENTS: Record<string, string> = {
+  create_project: "autoApprove",
+  update_project: "autoApprove",
+};
+
+// Admins may additionally call every other tool, such as delete_project and update_project
+const ROLE_TOOLS: Record<Exclude<Role, "admin">, ReadonlySet<string>> = {
+  "read-only": new Set(READ_TOOLS),
+  worker: new Set([...READ_TOOLS, ...WORK_TOOLS]),
+  reviewer: new Set([...READ_TOOLS, ...REVIEW_TOOLS]),
+};
+
+/**
+ * Returns whether a role may list and call a tool.
+ */
+export function isToolAllowed(role: Role, toolName: string): boolean {
+  return role === "admin" || ROLE_TOOLS[role].has(toolName);
+}
+
+/**
+ * @throws {PermissionDenied} If the role may not call the tool
+ */
+export function assertToolAllowed(role: Role, toolName: string): void {
+  if (!isToolAllowed(role, toolName)) {
+    throw new AppError(
+      `Permission denied: role '${role}' may not call ${toolName}`,
+      AppErrorCode.PermissionDenied
+    );
+  }
+}
+
+/**
+ * Who is calling tools, as far as access control is concerned.
+ */
+export interface ToolAccess {
+  /** Role of the authenticated token; decides tool access on its own when set */
+  role?: Role;
+  /** Without a role, hides the review tools so agents can't approve their own work */
+  agentMode?: boolean;
+}
+
+/**
+ * Returns whether a caller may list and call a tool.
+ */
+export function canUseTool(access: ToolAccess, toolName: string): boolean {
+  if (access.role) {
+    return isToolAllowed(access.role, toolName);
+  }
+  return !(access.agentMode && REVIEW_TOOLS.includes(toolName));
+}
+
+/**
+ * Returns whether a caller may pass these arguments to a tool it may use.
+ * Turning on autoApprove counts as approving, so it needs approve_task access.
+ */
+export function canUseToolArguments(access: ToolAccess, toolName: string, args: Record<string, unknown>): boolean {
+  const argName = REVIEW_ARGUMENTS[toolName];
+  return !argName || args[argName] !== true || canUseTool(access, "approve_task");
+}
+
+/**
+ * @throws {PermissionDenied} If the caller may not call the tool, or not with these arguments
+ */
+export function assertCanUseTool(access: ToolAccess, toolName: string, args: Record<string, unknown> = {}): void {
+  if (access.role) {
+    assertToolAllowed(access.role, toolName);
+  } else if (!canUseTool(access, toolName)) {
+    throw new AppError(
+      `Permission denied: ${toolName} is reserved for human reviewers. Ask the user to review the work, for example with the taskqueue CLI.`,
+      AppErrorCode.PermissionDenied
+    );
+  }
+  if (!canUseToolArguments(access, toolName, args)) {
+    throw new AppError(
+      `Permission denied: ${REVIEW_ARGUMENTS[toolName]} on ${toolName} approves tasks without review and is reserved for human reviewers.`,
+      AppErrorCode.PermissionDenied
+    );
+  }
+}
+
+const authConfigSchema = z.object({
+  tokens: z.array(z.object({
+    /** Display name used in logs, e.g. the agent or person the token was issued to */
+    name: z.string().min(1),
+    token: z.string().min(16, "Tokens must be at least 16 characters long"),
+    role: z.enum(ROLES as [Role, ...Role[]]),
+  })).min(1, "At least one token is required"),
+});
+
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+export type AuthToken = AuthConfig["tokens"][number];
+
+/**
+ * Loads the API tokens for HTTP mode from a JSON file of the form
+ * `{ "tokens": [{ "name": "...", "token": "...", "role": "worker" }] }`.
+ * @throws {ConfigurationError} If the file can't be read or is invalid
+ */
+export async function loadAuthConfig(filePath: string): Promise<AuthConfig> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (error) {
+    throw new AppError(
+      `Failed to read auth config ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      AppErrorCode.ConfigurationError,
+      error
+    );
+  }
+
+  const result = authConfigSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new AppError(
+      `Invalid auth config ${filePath} at ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+      AppErrorCode.ConfigurationError,
+      { issues: result.error.issues }
+    );
+  }
+
+  const tokens = result.data.tokens.map(t => t.token);
+  if (new Set(tokens).size !== tokens.length) {
+    throw new AppError(`Invalid auth config ${filePath}: tokens must be unique`, AppErrorCode.ConfigurationError);
+  }
+  return result.data;
+}
+
+/**
+ * Finds the configured token matching an `Authorization: Bearer <token>` header.
+ * Comparisons take the same time whether or not a token matches.
+ * @returns The matching token, or undefined if the header is missing or the token is unknown
+ */
+export function authenticate(config: AuthConfig, authorizationHeader: string | undefined): AuthToken | undefined {
+  const match = authorizationHeader?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  // Hash first so the compared buffers have equal length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  const presented = digest(match[1]);
+  let found: AuthToken | undefined;
+  for (const entry of config.tokens) {
+    if (timingSafeEqual(presented, digest(entry.token))) {
+      found = entry;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,120 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { TaskManager } from "./TaskManager.js";
+import { listTools, executeToolAndHandleErrors } from "./tools.js";
+import { ALL_RESOURCE_TEMPLATES, listResources, readResourceAndHandleErrors } from "./resources.js";
+import { ResourceWatcher } from "./ResourceWatcher.js";
+import { listPrompts, getPromptAndHandleErrors } from "./prompts.js";
+import { ToolAccess } from "./auth.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Only the tools the client may use are listed and callable. Without a role
+ * or agent mode (e.g. plain stdio) all tools are available.
+ */
+export type CreateServerOptions = ToolAccess;
+
+/**
+ * Creates an MCP server backed by the given task manager. Each client session
+ * gets its own server (stdio has exactly one), while the task manager is
+ * shared so all sessions see and update the same projects.
+ */
+export function createServer(taskManager: TaskManager, options: CreateServerOptions = {}): Server {
+  // Create server with capabilities BEFORE setting up handlers
+  const server = new Server(
+    {
+      name: "task-manager-server",
+      version: "1.4.0"
+    },
+    {
+      capabilities: {
+        tools: {
+          list: true,
+          call: true
+        },
+        resources: {
+          subscribe: true,
+          listChanged: true
+        },
+        prompts: {}
+      }
+    }
+  );
+
+  // Notifies the client when projects and tasks change, including changes made with the CLI
+  const resourceWatcher = new ResourceWatcher(taskManager, server);
+  server.oninitialized = () => {
+    resourceWatcher.start().catch((error) => {
+      console.error("Failed to start watching for resource changes:", error);
+    });
+  };
+  server.onclose = () => resourceWatcher.stop();
+
+  // Set up request handlers AFTER capabilities are configured
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: listTools(options)
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Directly call the handler. It either returns a result object (success or isError:true)
+    // OR it throws a tagged protocol error.
+    return await executeToolAndHandleErrors(
+      request.params.name,
+      request.params.arguments || {},
+      taskManager,
+      options
+    );
+    // SDK automatically handles:
+    // - Wrapping the returned value (success data or isError:true object) in `result: { ... }`
+    // - Catching re-thrown protocol errors and formatting the top-level `error: { ... }`
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return await listResources(taskManager);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: ALL_RESOURCE_TEMPLATES
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await readResourceAndHandleErrors(request.params.uri, taskManager);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    resourceWatcher.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceWatcher.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return await listPrompts();
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return await getPromptAndHandleErrors(
+      request.params.name,
+      request.params.arguments || {},
+      taskManager
+    );
+  });
+
+  return server;
+}
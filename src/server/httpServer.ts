@@ -0,0 +1,213 @@
+import * as http from "node:http";
+import { randomUUID } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { TaskManager } from "./TaskManager.js";
+import { createServer } from "./createServer.js";
+import { AuthConfig, AuthToken, authenticate } from "./auth.js";
+
+/** Endpoint for the streamable HTTP transport */
+export const MCP_PATH = "/mcp";
+/** Endpoints for the deprecated HTTP+SSE transport, for older clients */
+export const SSE_PATH = "/sse";
+export const SSE_MESSAGES_PATH = "/messages";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** API tokens clients must present as bearer tokens. Without it, the server is open to anyone who can reach it. */
+  auth?: AuthConfig;
+  /** Hide the review tools from sessions without a reviewer or admin token */
+  agentMode?: boolean;
+}
+
+export interface RunningHttpServer {
+  /** The address the server is listening on, e.g. http://127.0.0.1:3000 */
+  url: string;
+  /** Closes all sessions and stops accepting connections */
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** The token that opened the session; later requests must present the same one */
+  token?: AuthToken;
+}
+
+/**
+ * Reads and parses a JSON request body. Returns undefined for an empty body.
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString("utf-8");
+  return body ? JSON.parse(body) : undefined;
+}
+
+/**
+ * Sends a JSON-RPC error response that isn't tied to a request ID.
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Starts an HTTP server that speaks MCP streamable HTTP on /mcp, and the older
+ * HTTP+SSE transport on /sse and /messages. Every client session gets its own
+ * MCP server, all sharing the one task manager, so concurrent clients no
+ * longer each need a server process contending for the tasks file lock.
+ */
+export async function startHttpServer(
+  taskManager: TaskManager,
+  options: HttpServerOptions
+): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+
+  /**
+   * Returns whether a request may use a session. Sessions are bound to the
+   * token that opened them, so a leaked session ID is useless without it.
+   */
+  function checkSessionToken(session: Session, token: AuthToken | undefined, res: http.ServerResponse): boolean {
+    if (session.token !== token) {
+      sendJsonRpcError(res, 403, -32001, "Forbidden: Session belongs to a different token");
+      return false;
+    }
+    return true;
+  }
+
+  async function handleStreamableHttp(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    token: AuthToken | undefined
+  ): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing?.transport instanceof StreamableHTTPServerTransport) {
+      if (!checkSessionToken(existing, token, res)) return;
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = createServer(taskManager, { role: token?.role, agentMode: options.agentMode });
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, token });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: http.ServerResponse, token: AuthToken | undefined): Promise<void> {
+    const server = createServer(taskManager, { role: token?.role, agentMode: options.agentMode });
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { server, transport, token });
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    token: AuthToken | undefined
+  ): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = sessions.get(sessionId);
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+    if (!checkSessionToken(session, token, res)) return;
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    try {
+      if (![MCP_PATH, SSE_PATH, SSE_MESSAGES_PATH].includes(url.pathname)) {
+        res.writeHead(404).end("Not Found");
+        return;
+      }
+
+      let token: AuthToken | undefined;
+      if (options.auth) {
+        token = authenticate(options.auth, req.headers.authorization);
+        if (!token) {
+          res.setHeader("WWW-Authenticate", 'Bearer realm="taskqueue-mcp"');
+          sendJsonRpcError(res, 401, -32001, "Unauthorized: Missing or invalid bearer token");
+          return;
+        }
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableHttp(req, res, token);
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseConnect(res, token);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url, token);
+      } else {
+        res.writeHead(404).end("Not Found");
+      }
+    } catch (error) {
+      console.error(`HTTP Error [${req.method} ${url.pathname}]:`, error);
+      if (!res.headersSent) {
+        if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, -32700, "Parse error: Invalid JSON");
+        } else {
+          sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as { address: string; port: number };
+  const host = address.address.includes(":") ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      // Closing each session ends its open SSE streams, which lets the HTTP server finish closing
+      const closing = [...sessions.values()].map(({ server }) => server.close().catch((error) => {
+        console.error("Failed to close MCP session:", error);
+      }));
+      sessions.clear();
+      await Promise.all(closing);
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeIdleConnections();
+      });
+    },
+  };
+}
@@ -1,50 +1,101 @@
 #!/usr/bin/env node
 
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { TaskManager } from "./TaskManager.js";
-import { ALL_TOOLS, executeToolAndHandleErrors } from "./tools.js";
-import { ListToolsRequestSchema, CallToolRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-
-// Create server with capabilities BEFORE setting up handlers
-const server = new Server(
-  {
-    name: "task-manager-server",
-    version: "1.4.0"
-  },
-  {
-    capabilities: {
-      tools: {
-        list: true,
-        call: true
-      }
-    }
+import { createServer } from "./createServer.js";
+import { startHttpServer } from "./httpServer.js";
+import { loadAuthConfig } from "./auth.js";
+
+const TRANSPORTS = ["stdio", "http"] as const;
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Reads the transport settings from command line flags, falling back to
+ * environment variables and then to defaults.
+ */
+function readTransportConfig() {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: "string" },
+      http: { type: "boolean" },
+      host: { type: "string" },
+      port: { type: "string" },
+      "auth-file": { type: "string" },
+      "allow-unauthenticated": { type: "boolean" },
+      "agent-mode": { type: "boolean" },
+    },
+  });
+
+  const transport = values.http ? "http" : values.transport ?? process.env.TASK_MANAGER_TRANSPORT ?? "stdio";
+  if (!(TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new Error(`Invalid transport: ${transport}. Must be one of: ${TRANSPORTS.join(", ")}`);
   }
-);
 
-// Create task manager instance
-const taskManager = new TaskManager();
+  const portValue = values.port ?? process.env.TASK_MANAGER_HTTP_PORT ?? String(DEFAULT_HTTP_PORT);
+  const port = Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${portValue}`);
+  }
 
-// Set up request handlers AFTER capabilities are configured
-server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: ALL_TOOLS
+    transport,
+    host: values.host ?? process.env.TASK_MANAGER_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port,
+    authFile: values["auth-file"] ?? process.env.TASK_MANAGER_AUTH_FILE,
+    allowUnauthenticated: values["allow-unauthenticated"] ?? ["true", "1"].includes(process.env.TASK_MANAGER_ALLOW_UNAUTHENTICATED ?? ""),
+    agentMode: values["agent-mode"] ?? ["true", "1"].includes(process.env.TASK_MANAGER_AGENT_MODE ?? ""),
   };
-});
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  // Directly call the handler. It either returns a result object (success or isError:true)
-  // OR it throws a tagged protocol error.
-  return await executeToolAndHandleErrors(
-    request.params.name,
-    request.params.arguments || {},
-    taskManager
-  );
-  // SDK automatically handles:
-  // - Wrapping the returned value (success data or isError:true object) in `result: { ... }`
-  // - Catching re-thrown protocol errors and formatting the top-level `error: { ... }`
-});
+async function main() {
+  const config = readTransportConfig();
+
+  // One task manager for the whole process, shared by every client session
+  const taskManager = new TaskManager();
 
-// Start the server
-const transport = new StdioServerTransport();
-server.connect(transport);
+  let shutdown: () => Promise<void>;
+  if (config.transport === "http") {
+    const auth = config.authFile ? await loadAuthConfig(config.authFile) : undefined;
+    if (!auth && !["127.0.0.1", "localhost", "::1"].includes(config.host)) {
+      // Anyone on the network could read and change every project
+      if (!config.allowUnauthenticated) {
+        throw new Error(
+          `Refusing to listen on ${config.host} without authentication. ` +
+          `Set TASK_MANAGER_AUTH_FILE to require API tokens, or pass --allow-unauthenticated to accept anyone who can reach the server.`
+        );
+      }
+      console.error(`Warning: listening on ${config.host} without authentication. Set TASK_MANAGER_AUTH_FILE to require API tokens.`);
+    }
+    const httpServer = await startHttpServer(taskManager, { ...config, auth });
+    console.error(`Task manager MCP server listening on ${httpServer.url}/mcp`);
+    shutdown = () => httpServer.close();
+  } else {
+    const server = createServer(taskManager, { agentMode: config.agentMode });
+    await server.connect(new StdioServerTransport());
+    shutdown = () => server.close();
+  }
+
+  // Close client sessions cleanly on Ctrl+C or a service stop
+  let shuttingDown = false;
+  const onSignal = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down`);
+    try {
+      await shutdown();
+      process.exit(0);
+    } catch (error) {
+      console.error("Error during shutdown:", error);
+      process.exit(1);
+    }
+  };
+  process.on("SIGINT", () => onSignal("SIGINT"));
+  process.on("SIGTERM", () => onSignal("SIGTERM"));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+import { LanguageModel } from "ai";
+import { AppError, AppErrorCode } from "../types/errors.js";
+
+/**
+ * Creates a model from a provider. Loaders import their provider package on
+ * demand so unused ones are never loaded.
+ */
+export type LanguageModelLoader = (model: string) => Promise<LanguageModel>;
+
+const providerRegistry = new Map<string, LanguageModelLoader>();
+
+/**
+ * Makes a provider available to loadLanguageModel under the given name,
+ * replacing any provider already registered with that name.
+ */
+export function registerProvider(name: string, loader: LanguageModelLoader): void {
+  providerRegistry.set(name, loader);
+}
+
+/** Names of the registered providers, in registration order */
+export function getProviderNames(): string[] {
+  return Array.from(providerRegistry.keys());
+}
+
+/**
+ * Loads a language model from one of the registered providers.
+ * @throws {InvalidProvider} If the provider is not registered
+ */
+export async function loadLanguageModel(provider: string, model: string): Promise<LanguageModel> {
+  const loader = providerRegistry.get(provider);
+  if (!loader) {
+    throw new AppError(`Invalid provider: ${provider}`, AppErrorCode.InvalidProvider);
+  }
+  return loader(model);
+}
+
+registerProvider("openai", async (model) => {
+  const { createOpenAI } = await import("@ai-sdk/openai");
+  // OPENAI_BASE_URL points the provider at a proxy such as OpenRouter
+  return createOpenAI({ baseURL: process.env.OPENAI_BASE_URL })(model);
+});
+
+registerProvider("anthropic", async (model) => {
+  const { anthropic } = await import("@ai-sdk/anthropic");
+  return anthropic(model);
+});
+
+registerProvider("google", async (model) => {
+  const { google } = await import("@ai-sdk/google");
+  return google(model);
+});
+
+registerProvider("deepseek", async (model) => {
+  const { deepseek } = await import("@ai-sdk/deepseek");
+  return deepseek(model);
+});
+
+// Any server with an OpenAI-style chat completions API, e.g. Ollama or llama.cpp
+registerProvider("openai-compatible", async (model) => {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseURL) {
+    throw new AppError(
+      "Missing OPENAI_COMPATIBLE_BASE_URL environment variable required for openai-compatible",
+      AppErrorCode.ConfigurationError
+    );
+  }
+  const { createOpenAICompatible } = await import("@ai-sdk/openai-compatible");
+  return createOpenAICompatible({
+    name: "openai-compatible",
+    baseURL,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+  })(model);
+});
+
+/**
+ * Maps an error thrown while generating with a provider's model to an AppError,
+ * recognizing missing API keys and unknown models.
+ * @param fallbackMessage Message for errors that aren't recognized
+ */
+export function toLLMError(err: any, provider: string, model: string, fallbackMessage: string): AppError {
+  if (err.name === 'LoadAPIKeyError' ||
+      err.message.includes('API key is missing') ||
+      err.message.includes('You didn\'t provide an API key') ||
+      err.message.includes('unregistered callers') ||
+      (err.responseBody && err.responseBody.includes('Authentication Fails'))) {
+    return new AppError(
+      `Missing API key environment variable required for ${provider}`,
+      AppErrorCode.ConfigurationError,
+      err
+    );
+  }
+  // Check for invalid model errors by looking at the error code, type, and message
+  if ((err.data?.error?.code === 'model_not_found') &&
+      err.message.includes('model')) {
+    return new AppError(
+      `Invalid model: ${model} is not available for ${provider}`,
+      AppErrorCode.InvalidModel,
+      err
+    );
+  }
+  // For unknown errors, preserve the original error but wrap it
+  return new AppError(fallbackMessage, AppErrorCode.LLMGenerationError, err);
+}
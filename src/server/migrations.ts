@@ -0,0 +1,92 @@
+import { AppError, AppErrorCode } from "../types/errors.js";
+
+/**
+ * Schema version written to the tasks file by this version of the task manager.
+ * Files without a schemaVersion field predate versioning and count as version 0.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+interface Migration {
+  /** The schema version this migration upgrades to */
+  version: number;
+  description: string;
+  migrate: (data: Record<string, any>) => Record<string, any>;
+}
+
+// Ordered list of migrations; each one upgrades data from version - 1 to version
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Add schemaVersion and fill in fields missing from early task files",
+    migrate: (data) => ({
+      ...data,
+      projects: (data.projects ?? []).map((project: Record<string, any>) => ({
+        ...project,
+        projectPlan: project.projectPlan ?? project.initialPrompt,
+        completed: project.completed ?? false,
+        tasks: (project.tasks ?? []).map((task: Record<string, any>) => ({
+          ...task,
+          approved: task.approved ?? false,
+          completedDetails: task.completedDetails ?? "",
+        })),
+      })),
+    }),
+  },
+  {
+    version: 2,
+    description: "Allow the claimed, lease_expired, reordered, moved, copied and decomposed history event types",
+    // Nothing to convert: the new version only keeps version 1 readers, which
+    // reject these event types, from loading the file
+    migrate: (data) => data,
+  },
+];
+
+export interface MigrationResult {
+  data: Record<string, any>;
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the migrations that were applied, in order */
+  applied: string[];
+}
+
+/**
+ * Returns the schema version of raw tasks file data.
+ */
+export function getSchemaVersion(data: Record<string, any>): number {
+  return typeof data.schemaVersion === "number" ? data.schemaVersion : 0;
+}
+
+/**
+ * Upgrades raw tasks file data to the current schema version.
+ * The input is not modified.
+ * @param data The parsed file contents
+ * @param filePath The file the data came from, used in error messages
+ * @throws {FileParseError} If the data is not an object, or was written by a newer version
+ */
+export function migrateTaskManagerFile(data: unknown, filePath: string): MigrationResult {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new AppError(
+      `Invalid tasks file ${filePath}: expected a JSON object`,
+      AppErrorCode.FileParseError
+    );
+  }
+
+  const fromVersion = getSchemaVersion(data as Record<string, any>);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new AppError(
+      `Tasks file ${filePath} has schema version ${fromVersion}, but this version of taskqueue-mcp only supports up to ${CURRENT_SCHEMA_VERSION}. Please upgrade taskqueue-mcp.`,
+      AppErrorCode.FileParseError
+    );
+  }
+
+  let migrated = data as Record<string, any>;
+  const applied: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migrated = { ...migration.migrate(migrated), schemaVersion: migration.version };
+      applied.push(`v${migration.version}: ${migration.description}`);
+    }
+  }
+
+  return { data: migrated, fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied };
+}
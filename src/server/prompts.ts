@@ -0,0 +1,244 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  Prompt,
+  GetPromptResult,
+  ListPromptsResult,
+  McpError,
+  ErrorCode,
+} from "@modelcontextprotocol/sdk/types.js";
+import { TaskManager } from "./TaskManager.js";
+import { Task } from "../types/data.js";
+import { AppError, AppErrorCode } from "../types/errors.js";
+
+/** Directory of custom prompt templates, configured with TASK_MANAGER_PROMPTS_DIR */
+export const PROMPTS_DIR = process.env.TASK_MANAGER_PROMPTS_DIR;
+
+const TEMPLATE_EXTENSIONS = [".md", ".txt"];
+
+// Matches {{argumentName}} placeholders in custom templates
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+interface PromptDefinition extends Prompt {
+  /** Builds the prompt text from validated arguments */
+  render: (args: Record<string, string>, taskManager: TaskManager) => Promise<string>;
+}
+
+/**
+ * Formats a task as a short markdown block for inclusion in a prompt.
+ */
+function formatTask(task: Task): string {
+  const lines = [
+    `### ${task.id}: ${task.title}`,
+    `Status: ${task.status}${task.approved ? " (approved)" : ""}`,
+    "",
+    task.description,
+  ];
+  if (task.dependsOn?.length) lines.push("", `Depends on: ${task.dependsOn.join(", ")}`);
+  if (task.toolRecommendations) lines.push("", `Tool recommendations: ${task.toolRecommendations}`);
+  if (task.ruleRecommendations) lines.push("", `Rule recommendations: ${task.ruleRecommendations}`);
+  if (task.completedDetails) lines.push("", `Completed details: ${task.completedDetails}`);
+  if (task.reviewFeedback) lines.push("", `Reviewer feedback: ${task.reviewFeedback}`);
+  return lines.join("\n");
+}
+
+// ---------------------- BUILT-IN PROMPTS ----------------------
+
+const planProjectPrompt: PromptDefinition = {
+  name: "plan_project",
+  description: "Break a goal down into a project with a sequence of tasks, then start working on it.",
+  arguments: [
+    { name: "goal", description: "What the project should achieve.", required: true },
+  ],
+  render: async ({ goal }) => [
+    "Plan a project for the following goal:",
+    "",
+    goal,
+    "",
+    "1. Break the goal down into a short sequence of concrete tasks, each small enough to complete and review on its own. Use dependsOn where a task cannot start before another is approved.",
+    "2. Call `create_project` with the goal as the initial prompt, a brief project plan and the tasks.",
+    "3. Call `get_next_task` with the new project ID and start working on the task it returns.",
+  ].join("\n"),
+};
+
+const workNextTaskPrompt: PromptDefinition = {
+  name: "work_next_task",
+  description: "Work on the next task of a project, following the task queue workflow.",
+  arguments: [
+    { name: "projectId", description: "The ID of the project to work on.", required: true },
+  ],
+  render: async ({ projectId }, taskManager) => {
+    const project = await taskManager.readProject(projectId);
+    // This workflow always leaves approval to the user
+    const next = await taskManager.getNextTask(projectId, true);
+    if (!("task" in next)) {
+      return [
+        `Project ${projectId}: ${next.message}`,
+        "",
+        "Tell the user the project is ready for their review. Do not call `finalize_project` until they have approved it.",
+      ].join("\n");
+    }
+
+    return [
+      `You are working on project ${projectId}.`,
+      "",
+      "## Project plan",
+      "",
+      project.projectPlan,
+      "",
+      "## Your task",
+      "",
+      formatTask(next.task),
+      "",
+      ...(next.message ? [next.message, ""] : []),
+      "## Workflow",
+      "",
+      `1. Call \`update_task\` to set ${next.task.id} to "in progress", unless it already is.`,
+      "2. Do the work described above, following any tool and rule recommendations.",
+      `3. Call \`update_task\` to set ${next.task.id} to "done" with completedDetails describing what you did.`,
+      "4. Stop and ask the user to review and approve the task before calling `get_next_task` again.",
+    ].join("\n");
+  },
+};
+
+const summarizeProjectPrompt: PromptDefinition = {
+  name: "summarize_project",
+  description: "Summarize a project's progress for the user.",
+  arguments: [
+    { name: "projectId", description: "The ID of the project to summarize.", required: true },
+  ],
+  render: async ({ projectId }, taskManager) => {
+    const project = await taskManager.readProject(projectId);
+    const count = (predicate: (task: Task) => boolean) => project.tasks.filter(predicate).length;
+
+    return [
+      `Summarize the status of project ${projectId} for the user: what has been done, what is in progress, what is waiting for approval or blocked, and what comes next.`,
+      "",
+      `Initial prompt: ${project.initialPrompt}`,
+      `Completed: ${project.completed ? "yes" : "no"}`,
+      `Tasks: ${project.tasks.length} total, ${count(t => t.status === "not started")} not started, ` +
+        `${count(t => t.status === "in progress")} in progress, ${count(t => t.status === "done" && !t.approved)} awaiting approval, ` +
+        `${count(t => t.approved)} approved`,
+      ...(project.blockedTasks.length
+        ? [`Blocked: ${project.blockedTasks.map(b => `${b.taskId} (waiting on ${b.blockedBy.join(", ")})`).join("; ")}`]
+        : []),
+      "",
+      "## Project plan",
+      "",
+      project.projectPlan,
+      "",
+      "## Tasks",
+      "",
+      ...project.tasks.map(task => `${formatTask(task)}\n`),
+    ].join("\n");
+  },
+};
+
+const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  planProjectPrompt,
+  workNextTaskPrompt,
+  summarizeProjectPrompt,
+];
+
+// ---------------------- CUSTOM PROMPT TEMPLATES ----------------------
+
+/**
+ * Loads the custom prompt templates from a directory. Every .md or .txt file
+ * becomes a prompt named after the file, and each {{placeholder}} in it
+ * becomes a required argument. Built-in prompts take precedence over
+ * templates with the same name.
+ */
+async function loadCustomPrompts(dir: string | undefined): Promise<PromptDefinition[]> {
+  if (!dir) {
+    return [];
+  }
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch (error) {
+    console.error(`Failed to read prompt templates from ${dir}:`, error);
+    return [];
+  }
+
+  const prompts: PromptDefinition[] = [];
+  for (const entry of entries.sort()) {
+    const extension = path.extname(entry);
+    if (!TEMPLATE_EXTENSIONS.includes(extension)) continue;
+
+    const name = path.basename(entry, extension);
+    if (BUILT_IN_PROMPTS.some(prompt => prompt.name === name)) continue;
+
+    const template = await fs.readFile(path.join(dir, entry), "utf-8");
+    const argumentNames = [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+    prompts.push({
+      name,
+      description: `Custom prompt template ${entry}`,
+      arguments: argumentNames.map(argName => ({ name: argName, required: true })),
+      render: async (args) => template.replace(PLACEHOLDER_PATTERN, (_, argName: string) => args[argName]),
+    });
+  }
+  return prompts;
+}
+
+async function getAllPrompts(promptsDir: string | undefined): Promise<PromptDefinition[]> {
+  return [...BUILT_IN_PROMPTS, ...(await loadCustomPrompts(promptsDir))];
+}
+
+// ---------------------- PROMPT HANDLERS ----------------------
+
+/**
+ * Lists the built-in prompts and any custom templates in the prompts directory.
+ */
+export async function listPrompts(promptsDir: string | undefined = PROMPTS_DIR): Promise<ListPromptsResult> {
+  const prompts = await getAllPrompts(promptsDir);
+  return {
+    prompts: prompts.map(({ name, description, arguments: args }) => ({ name, description, arguments: args })),
+  };
+}
+
+/**
+ * Renders a prompt and converts errors to MCP protocol errors. Unknown prompts,
+ * missing arguments and projects that can't be worked on are reported as
+ * invalid params, anything else as an internal error.
+ */
+export async function getPromptAndHandleErrors(
+  name: string,
+  args: Record<string, string>,
+  taskManager: TaskManager,
+  promptsDir: string | undefined = PROMPTS_DIR
+): Promise<GetPromptResult> {
+  try {
+    const prompt = (await getAllPrompts(promptsDir)).find(p => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    for (const arg of prompt.arguments ?? []) {
+      if (arg.required && !args[arg.name]) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${arg.name}`);
+      }
+    }
+
+    const text = await prompt.render(args, taskManager);
+    return {
+      description: prompt.description,
+      messages: [{ role: "user", content: { type: "text", text } }],
+    };
+  } catch (error: AppError | unknown) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    if (error instanceof AppError && [
+        AppErrorCode.ProjectNotFound,
+        AppErrorCode.TaskNotFound,
+        AppErrorCode.ProjectAlreadyCompleted
+      ].includes(error.code as AppErrorCode)
+    ) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+
+    console.error(`Prompt Error [${name}]:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new McpError(ErrorCode.InternalError, `Prompt failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+  ListResourcesResult,
+  McpError,
+  ErrorCode,
+} from "@modelcontextprotocol/sdk/types.js";
+import { TaskManager } from "./TaskManager.js";
+import { AppError, AppErrorCode } from "../types/errors.js";
+
+export const RESOURCE_URI_PREFIX = "taskqueue://";
+export const PROJECTS_RESOURCE_URI = `${RESOURCE_URI_PREFIX}projects`;
+
+/**
+ * Returns the URI of a project resource.
+ */
+export function projectResourceUri(projectId: string): string {
+  return `${PROJECTS_RESOURCE_URI}/${encodeURIComponent(projectId)}`;
+}
+
+/**
+ * Returns the URI of a task resource.
+ */
+export function taskResourceUri(projectId: string, taskId: string): string {
+  return `${projectResourceUri(projectId)}/tasks/${encodeURIComponent(taskId)}`;
+}
+
+// ---------------------- RESOURCE TEMPLATES ----------------------
+
+const projectResourceTemplate: ResourceTemplate = {
+  uriTemplate: `${PROJECTS_RESOURCE_URI}/{projectId}`,
+  name: "Project",
+  description: "A project's plan, settings and tasks, including which tasks are blocked by unfinished dependencies.",
+  mimeType: "application/json",
+};
+
+const taskResourceTemplate: ResourceTemplate = {
+  uriTemplate: `${PROJECTS_RESOURCE_URI}/{projectId}/tasks/{taskId}`,
+  name: "Task",
+  description: "A single task with its status, recommendations and any reviewer feedback.",
+  mimeType: "application/json",
+};
+
+export const ALL_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  projectResourceTemplate,
+  taskResourceTemplate,
+];
+
+// ---------------------- RESOURCE HANDLERS ----------------------
+
+/**
+ * Lists the concrete resources: the project list, and one resource per project.
+ * Tasks are reachable through the task resource template.
+ */
+export async function listResources(taskManager: TaskManager): Promise<ListResourcesResult> {
+  const { projects } = await taskManager.listProjects();
+
+  const resources: Resource[] = [
+    {
+      uri: PROJECTS_RESOURCE_URI,
+      name: "Projects",
+      description: "Summaries of all projects and their task counts.",
+      mimeType: "application/json",
+    },
+    ...projects.map((project) => ({
+      uri: projectResourceUri(project.projectId),
+      name: `Project ${project.projectId}`,
+      description: project.initialPrompt,
+      mimeType: "application/json",
+    })),
+  ];
+
+  return { resources };
+}
+
+/**
+ * Reads a resource by URI, backed by the same TaskManager methods as the
+ * list_projects, read_project and read_task tools.
+ */
+async function readResourceData(uri: string, taskManager: TaskManager): Promise<unknown> {
+  if (uri === PROJECTS_RESOURCE_URI) {
+    return taskManager.listProjects();
+  }
+
+  const taskMatch = uri.match(/^taskqueue:\/\/projects\/([^/]+)\/tasks\/([^/]+)$/);
+  if (taskMatch) {
+    return taskManager.openTaskDetails(decodeURIComponent(taskMatch[1]), decodeURIComponent(taskMatch[2]));
+  }
+
+  const projectMatch = uri.match(/^taskqueue:\/\/projects\/([^/]+)$/);
+  if (projectMatch) {
+    return taskManager.readProject(decodeURIComponent(projectMatch[1]));
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+/**
+ * Reads a resource and converts errors to MCP protocol errors. Unlike tool
+ * calls, resource reads have no in-band error result, so a missing project or
+ * task is reported as invalid params and anything else as an internal error.
+ */
+export async function readResourceAndHandleErrors(
+  uri: string,
+  taskManager: TaskManager
+): Promise<ReadResourceResult> {
+  try {
+    const data = await readResourceData(uri, taskManager);
+    return {
+      contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+    };
+  } catch (error: AppError | unknown) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    if (error instanceof AppError && [
+        AppErrorCode.ProjectNotFound,
+        AppErrorCode.TaskNotFound
+      ].includes(error.code as AppErrorCode)
+    ) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+
+    console.error(`Resource Read Error [${uri}]:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new McpError(ErrorCode.InternalError, `Resource read failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { TaskManagerFile, TASK_PRIORITIES, ORDERING_POLICIES } from "../types/data.js";
+import { AppError, AppErrorCode } from "../types/errors.js";
+
+// Objects use passthrough so fields this version doesn't know about survive a load/save round trip
+
+const taskHistoryEventSchema = z.object({
+  taskId: z.string(),
+  type: z.enum(["created", "status_changed", "updated", "approved", "rejected", "deleted", "claimed", "lease_expired", "reordered", "moved", "copied", "decomposed"]),
+  timestamp: z.string(),
+  actor: z.string(),
+  details: z.record(z.unknown()).optional(),
+}).passthrough();
+
+const taskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  status: z.enum(["not started", "in progress", "done"]),
+  approved: z.boolean(),
+  completedDetails: z.string(),
+  toolRecommendations: z.string().optional(),
+  ruleRecommendations: z.string().optional(),
+  priority: z.enum(TASK_PRIORITIES).optional(),
+  parentId: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+  reviewFeedback: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  approvedAt: z.string().optional(),
+  assignee: z.string().optional(),
+  leaseExpiresAt: z.string().optional(),
+}).passthrough();
+
+const planRefinementSchema = z.object({
+  proposalId: z.string(),
+  feedback: z.string(),
+  projectPlan: z.string(),
+  added: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+    toolRecommendations: z.string().optional(),
+    ruleRecommendations: z.string().optional(),
+  }).passthrough()),
+  removed: z.array(z.object({ id: z.string(), title: z.string() }).passthrough()),
+  modified: z.array(z.object({
+    id: z.string(),
+    changes: z.record(z.object({ from: z.string().optional(), to: z.string() }).passthrough()),
+  }).passthrough()),
+  createdAt: z.string(),
+}).passthrough();
+
+const projectSchema = z.object({
+  projectId: z.string(),
+  initialPrompt: z.string(),
+  projectPlan: z.string(),
+  tasks: z.array(taskSchema),
+  completed: z.boolean(),
+  autoApprove: z.boolean().optional(),
+  orderingPolicy: z.enum(ORDERING_POLICIES).optional(),
+  history: z.array(taskHistoryEventSchema).optional(),
+  pendingRefinement: planRefinementSchema.optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+}).passthrough();
+
+export const taskManagerFileSchema = z.object({
+  schemaVersion: z.number().int().optional(),
+  projects: z.array(projectSchema),
+}).passthrough();
+
+/**
+ * Formats a zod issue path like ["projects", 0, "tasks", 2, "status"] as "projects[0].tasks[2].status".
+ */
+function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === "number") return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, "") || "(root)";
+}
+
+/**
+ * Validates loaded tasks file data against the current schema.
+ * @param data The parsed (and migrated) file contents
+ * @param filePath The file the data came from, used in error messages
+ * @throws {FileParseError} Naming the path of the first invalid field
+ */
+export function validateTaskManagerFile(data: unknown, filePath: string): TaskManagerFile {
+  const result = taskManagerFileSchema.safeParse(data);
+  if (result.success) {
+    return result.data as TaskManagerFile;
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }));
+  const first = issues[0];
+  throw new AppError(
+    `Invalid tasks file ${filePath} at ${first.path}: ${first.message}` +
+      (issues.length > 1 ? ` (and ${issues.length - 1} more problem(s))` : ""),
+    AppErrorCode.FileParseError,
+    { issues }
+  );
+}
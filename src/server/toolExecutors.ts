@@ -1,5 +1,19 @@
-import { TaskManager } from "./TaskManager.js";
+import { TaskManager, MAX_LEASE_SECONDS } from "./TaskManager.js";
 import { AppError, AppErrorCode } from "../types/errors.js";
+import { ToolAccess, canUseTool } from "./auth.js";
+import {
+  TASK_SORT_FIELDS,
+  PROJECT_SORT_FIELDS,
+  TASK_PRIORITIES,
+  ORDERING_POLICIES,
+  DECOMPOSE_MODES,
+  TaskSortField,
+  ProjectSortField,
+  SortOrder,
+  TaskPriority,
+  OrderingPolicy,
+  DecomposeMode,
+} from "../types/data.js";
 
 /**
  * Interface defining the contract for tool executors.
@@ -14,11 +28,13 @@ interface ToolExecutor {
    * Executes the tool's logic with the given arguments
    * @param taskManager The TaskManager instance to use for task-related operations
    * @param args The arguments passed to the tool as a key-value record
+   * @param access Who is calling the tool, for executors whose responses depend on it
    * @returns A promise that resolves to the raw data from TaskManager
    */
   execute: (
     taskManager: TaskManager,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    access: ToolAccess
   ) => Promise<unknown>;
 }
 
@@ -63,6 +79,35 @@ function validateTaskList(tasks: unknown): void {
   }
 }
 
+/**
+ * Validates an optional parameter that must be a non-empty string.
+ */
+function validateOptionalStringParam(param: unknown, paramName: string): string | undefined {
+  if (param === undefined) return undefined;
+  if (typeof param === "string" && param) return param;
+  throw new AppError(
+    `Invalid ${paramName}: must be a non-empty string`,
+    AppErrorCode.InvalidArgument
+  );
+}
+
+/**
+ * Validates an optional parameter that must be an array of strings.
+ */
+function validateOptionalStringArrayParam(
+  param: unknown,
+  paramName: string
+): string[] | undefined {
+  if (param === undefined) return undefined;
+  if (Array.isArray(param) && param.every((item) => typeof item === "string")) {
+    return param;
+  }
+  throw new AppError(
+    `Invalid ${paramName}: must be an array of strings`,
+    AppErrorCode.InvalidArgument
+  );
+}
+
 /**
  * Validates an optional "state" parameter against the allowed states.
  */
@@ -78,6 +123,90 @@ function validateOptionalStateParam(
   );
 }
 
+/**
+ * Validates optional "sortBy" and "sortOrder" parameters against the allowed sort fields.
+ */
+function validateOptionalSortParams<T extends string>(
+  sortBy: unknown,
+  sortOrder: unknown,
+  validFields: ReadonlyArray<T>
+): { sortBy?: T; sortOrder?: SortOrder } {
+  if (sortBy !== undefined && (typeof sortBy !== "string" || !validFields.includes(sortBy as T))) {
+    throw new AppError(
+      `Invalid sortBy parameter. Must be one of: ${validFields.join(", ")}`,
+      AppErrorCode.InvalidArgument
+    );
+  }
+  if (sortOrder !== undefined && sortOrder !== "asc" && sortOrder !== "desc") {
+    throw new AppError(
+      "Invalid sortOrder parameter. Must be one of: asc, desc",
+      AppErrorCode.InvalidArgument
+    );
+  }
+  return { sortBy: sortBy as T | undefined, sortOrder: sortOrder as SortOrder | undefined };
+}
+
+/**
+ * Validates an optional lease duration in seconds.
+ */
+function validateOptionalLeaseSeconds(leaseSeconds: unknown): number | undefined {
+  if (leaseSeconds === undefined) return undefined;
+  if (
+    typeof leaseSeconds !== "number" ||
+    !Number.isInteger(leaseSeconds) ||
+    leaseSeconds <= 0 ||
+    leaseSeconds > MAX_LEASE_SECONDS
+  ) {
+    throw new AppError(
+      `Invalid leaseSeconds: must be a positive integer of at most ${MAX_LEASE_SECONDS}`,
+      AppErrorCode.InvalidArgument
+    );
+  }
+  return leaseSeconds;
+}
+
+/**
+ * Validates an optional task priority.
+ */
+function validateOptionalPriority(priority: unknown, paramName: string = "priority"): TaskPriority | undefined {
+  if (priority === undefined) return undefined;
+  if (typeof priority === "string" && (TASK_PRIORITIES as readonly string[]).includes(priority)) {
+    return priority as TaskPriority;
+  }
+  throw new AppError(
+    `Invalid ${paramName}. Must be one of: ${TASK_PRIORITIES.join(", ")}`,
+    AppErrorCode.InvalidArgument
+  );
+}
+
+/**
+ * Validates an optional project ordering policy.
+ */
+function validateOptionalOrderingPolicy(orderingPolicy: unknown): OrderingPolicy | undefined {
+  if (orderingPolicy === undefined) return undefined;
+  if (typeof orderingPolicy === "string" && (ORDERING_POLICIES as readonly string[]).includes(orderingPolicy)) {
+    return orderingPolicy as OrderingPolicy;
+  }
+  throw new AppError(
+    `Invalid orderingPolicy. Must be one of: ${ORDERING_POLICIES.join(", ")}`,
+    AppErrorCode.InvalidArgument
+  );
+}
+
+/**
+ * Validates an optional decompose_task mode.
+ */
+function validateOptionalDecomposeMode(mode: unknown): DecomposeMode | undefined {
+  if (mode === undefined) return undefined;
+  if (typeof mode === "string" && (DECOMPOSE_MODES as readonly string[]).includes(mode)) {
+    return mode as DecomposeMode;
+  }
+  throw new AppError(
+    `Invalid mode. Must be one of: ${DECOMPOSE_MODES.join(", ")}`,
+    AppErrorCode.InvalidArgument
+  );
+}
+
 /**
  * Validates an array of task objects, ensuring each has required fields.
  */
@@ -89,6 +218,9 @@ function validateTaskObjects(
   description: string;
   toolRecommendations?: string;
   ruleRecommendations?: string;
+  priority?: TaskPriority;
+  dependsOn?: string[];
+  parentId?: string;
 }> {
   validateTaskList(tasks);
   const taskArray = tasks as Array<unknown>;
@@ -110,6 +242,9 @@ function validateTaskObjects(
       description,
       toolRecommendations: t.toolRecommendations ? String(t.toolRecommendations) : undefined,
       ruleRecommendations: t.ruleRecommendations ? String(t.ruleRecommendations) : undefined,
+      priority: validateOptionalPriority(t.priority, `priority in task at index ${index}`),
+      dependsOn: validateOptionalStringArrayParam(t.dependsOn, `dependsOn in task at index ${index}`),
+      parentId: validateOptionalStringParam(t.parentId, `parentId in task at index ${index}`),
     };
   });
 }
@@ -133,9 +268,14 @@ const listProjectsToolExecutor: ToolExecutor = {
       "completed",
       "all",
     ]);
+    const { sortBy, sortOrder } = validateOptionalSortParams<ProjectSortField>(
+      args.sortBy,
+      args.sortOrder,
+      PROJECT_SORT_FIELDS
+    );
 
     // 2. Core Logic Execution
-    const resultData = await taskManager.listProjects(state as any);
+    const resultData = await taskManager.listProjects(state as any, sortBy, sortOrder);
 
     // 3. Return raw success data
     return resultData;
@@ -153,6 +293,7 @@ const createProjectToolExecutor: ToolExecutor = {
     const validatedTasks = validateTaskObjects(args.tasks);
     const projectPlan = args.projectPlan !== undefined ? String(args.projectPlan) : undefined;
     const autoApprove = args.autoApprove === true;
+    const orderingPolicy = validateOptionalOrderingPolicy(args.orderingPolicy);
 
     if (args.projectPlan !== undefined && typeof args.projectPlan !== 'string') {
       throw new AppError(
@@ -171,7 +312,8 @@ const createProjectToolExecutor: ToolExecutor = {
       initialPrompt,
       validatedTasks,
       projectPlan,
-      autoApprove
+      autoApprove,
+      orderingPolicy
     );
 
     return resultData;
@@ -210,31 +352,99 @@ const generateProjectPlanToolExecutor: ToolExecutor = {
       });
     }
 
+    if (args.dryRun !== undefined && typeof args.dryRun !== "boolean") {
+      throw new AppError(
+        "Invalid type for optional parameter 'dryRun' (Expected boolean)",
+        AppErrorCode.InvalidArgument
+      );
+    }
+
     // 2. Core Logic Execution
-    const resultData = await taskManager.generateProjectPlan({
-      prompt,
+    const options = { prompt, provider, model, attachments };
+    const resultData = args.dryRun
+      ? await taskManager.previewProjectPlan(options)
+      : await taskManager.generateProjectPlan(options);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(generateProjectPlanToolExecutor.name, generateProjectPlanToolExecutor);
+
+/**
+ * Tool executor for creating a project from a previewed plan
+ */
+const acceptGeneratedPlanToolExecutor: ToolExecutor = {
+  name: "accept_generated_plan",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const token = validateRequiredStringParam(args.token, "token");
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.acceptGeneratedPlan(token);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(acceptGeneratedPlanToolExecutor.name, acceptGeneratedPlanToolExecutor);
+
+/**
+ * Tool executor for proposing changes to a project's plan using an LLM
+ */
+const refineProjectPlanToolExecutor: ToolExecutor = {
+  name: "refine_project_plan",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const feedback = validateRequiredStringParam(args.feedback, "feedback");
+    const provider = validateRequiredStringParam(args.provider, "provider");
+    const model = validateRequiredStringParam(args.model, "model");
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.refineProjectPlan({
+      projectId,
+      feedback,
       provider,
       model,
-      attachments,
     });
 
     // 3. Return raw success data
     return resultData;
   },
 };
-toolExecutorMap.set(generateProjectPlanToolExecutor.name, generateProjectPlanToolExecutor);
+toolExecutorMap.set(refineProjectPlanToolExecutor.name, refineProjectPlanToolExecutor);
+
+/**
+ * Tool executor for applying a proposed plan refinement
+ */
+const applyPlanRefinementToolExecutor: ToolExecutor = {
+  name: "apply_plan_refinement",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const proposalId = validateRequiredStringParam(args.proposalId, "proposalId");
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.applyPlanRefinement(projectId, proposalId);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(applyPlanRefinementToolExecutor.name, applyPlanRefinementToolExecutor);
 
 /**
  * Tool executor for getting the next task in a project
  */
 const getNextTaskToolExecutor: ToolExecutor = {
   name: "get_next_task",
-  async execute(taskManager, args) {
+  async execute(taskManager, args, access) {
     // 1. Argument Validation
     const projectId = validateProjectId(args.projectId);
 
     // 2. Core Logic Execution
-    const resultData = await taskManager.getNextTask(projectId);
+    const resultData = await taskManager.getNextTask(projectId, !canUseTool(access, "approve_task"));
 
     // 3. Return raw success data
     return resultData;
@@ -242,6 +452,47 @@ const getNextTaskToolExecutor: ToolExecutor = {
 };
 toolExecutorMap.set(getNextTaskToolExecutor.name, getNextTaskToolExecutor);
 
+/**
+ * Tool executor for claiming the next available task
+ */
+const claimNextTaskToolExecutor: ToolExecutor = {
+  name: "claim_next_task",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const agentId = validateRequiredStringParam(args.agentId, "agentId");
+    const leaseSeconds = validateOptionalLeaseSeconds(args.leaseSeconds);
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.claimNextTask(projectId, agentId, leaseSeconds);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(claimNextTaskToolExecutor.name, claimNextTaskToolExecutor);
+
+/**
+ * Tool executor for extending the lease on a claimed task
+ */
+const heartbeatTaskToolExecutor: ToolExecutor = {
+  name: "heartbeat_task",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskId = validateTaskId(args.taskId);
+    const agentId = validateRequiredStringParam(args.agentId, "agentId");
+    const leaseSeconds = validateOptionalLeaseSeconds(args.leaseSeconds);
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.heartbeatTask(projectId, taskId, agentId, leaseSeconds);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(heartbeatTaskToolExecutor.name, heartbeatTaskToolExecutor);
+
 /**
  * Tool executor for updating a task
  */
@@ -297,7 +548,10 @@ const updateTaskToolExecutor: ToolExecutor = {
       updates.status = status;
     }
 
-    const resultData = await taskManager.updateTask(projectId, taskId, updates);
+    const priority = validateOptionalPriority(args.priority);
+    const dependsOn = validateOptionalStringArrayParam(args.dependsOn, "dependsOn");
+
+    const resultData = await taskManager.updateTask(projectId, taskId, { ...updates, priority, dependsOn });
     return resultData;
   },
 };
@@ -327,28 +581,51 @@ toolExecutorMap.set(readProjectToolExecutor.name, readProjectToolExecutor);
 const deleteProjectToolExecutor: ToolExecutor = {
   name: "delete_project",
   async execute(taskManager, args) {
+    // 1. Argument Validation
     const projectId = validateProjectId(args.projectId);
 
-    const projectIndex = taskManager["data"].projects.findIndex(
-      (p) => p.projectId === projectId
-    );
-    if (projectIndex === -1) {
+    // 2. Core Logic Execution
+    const resultData = await taskManager.deleteProject(projectId);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(deleteProjectToolExecutor.name, deleteProjectToolExecutor);
+
+/**
+ * Tool executor for updating project settings
+ */
+const updateProjectToolExecutor: ToolExecutor = {
+  name: "update_project",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    if (args.autoApprove !== undefined && typeof args.autoApprove !== "boolean") {
       throw new AppError(
-        `Project not found: ${projectId}`,
-        AppErrorCode.ProjectNotFound
+        "Invalid type for optional parameter 'autoApprove' (Expected boolean)",
+        AppErrorCode.InvalidArgument
+      );
+    }
+    const orderingPolicy = validateOptionalOrderingPolicy(args.orderingPolicy);
+    if (args.autoApprove === undefined && orderingPolicy === undefined) {
+      throw new AppError(
+        "Missing required parameter: at least one of autoApprove or orderingPolicy must be provided",
+        AppErrorCode.MissingParameter
       );
     }
 
-    taskManager["data"].projects.splice(projectIndex, 1);
-    await taskManager["saveTasks"]();
+    // 2. Core Logic Execution
+    const resultData = await taskManager.updateProject(projectId, {
+      autoApprove: args.autoApprove,
+      orderingPolicy,
+    });
 
-    return {
-      status: "project_deleted",
-      message: `Project ${projectId} has been deleted.`,
-    };
+    // 3. Return raw success data
+    return resultData;
   },
 };
-toolExecutorMap.set(deleteProjectToolExecutor.name, deleteProjectToolExecutor);
+toolExecutorMap.set(updateProjectToolExecutor.name, updateProjectToolExecutor);
 
 /**
  * Tool executor for adding tasks to a project
@@ -401,9 +678,17 @@ const listTasksToolExecutor: ToolExecutor = {
       "completed",
       "all",
     ]);
+    const { sortBy, sortOrder } = validateOptionalSortParams<TaskSortField>(
+      args.sortBy,
+      args.sortOrder,
+      TASK_SORT_FIELDS
+    );
+    const assignee = args.assignee !== undefined
+      ? validateRequiredStringParam(args.assignee, "assignee")
+      : undefined;
 
     // 2. Core Logic Execution
-    const resultData = await taskManager.listTasks(projectId, state as any);
+    const resultData = await taskManager.listTasks(projectId, state as any, sortBy, sortOrder, assignee);
 
     // 3. Return raw success data
     return resultData;
@@ -430,6 +715,25 @@ const readTaskToolExecutor: ToolExecutor = {
 };
 toolExecutorMap.set(readTaskToolExecutor.name, readTaskToolExecutor);
 
+/**
+ * Tool executor for reading a task's audit history
+ */
+const readTaskHistoryToolExecutor: ToolExecutor = {
+  name: "read_task_history",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskId = args.taskId !== undefined ? validateTaskId(args.taskId) : undefined;
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.readTaskHistory(projectId, taskId);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(readTaskHistoryToolExecutor.name, readTaskHistoryToolExecutor);
+
 /**
  * Tool executor for creating an individual task in a project
  */
@@ -458,6 +762,9 @@ const createTaskToolExecutor: ToolExecutor = {
       description,
       toolRecommendations: args.toolRecommendations ? String(args.toolRecommendations) : undefined,
       ruleRecommendations: args.ruleRecommendations ? String(args.ruleRecommendations) : undefined,
+      priority: validateOptionalPriority(args.priority),
+      dependsOn: validateOptionalStringArrayParam(args.dependsOn, "dependsOn"),
+      parentId: validateOptionalStringParam(args.parentId, "parentId"),
     };
 
     const resultData = await taskManager.addTasksToProject(projectId, [singleTask]);
@@ -466,6 +773,99 @@ const createTaskToolExecutor: ToolExecutor = {
 };
 toolExecutorMap.set(createTaskToolExecutor.name, createTaskToolExecutor);
 
+/**
+ * Tool executor for reordering the tasks of a project
+ */
+const reorderTasksToolExecutor: ToolExecutor = {
+  name: "reorder_tasks",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskIds = validateOptionalStringArrayParam(args.taskIds, "taskIds");
+    if (!taskIds) {
+      throw new AppError(
+        "Invalid or missing required parameter: taskIds (Expected array)",
+        AppErrorCode.MissingParameter
+      );
+    }
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.reorderTasks(projectId, taskIds);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(reorderTasksToolExecutor.name, reorderTasksToolExecutor);
+
+/**
+ * Tool executor for moving a task to another project
+ */
+const moveTaskToolExecutor: ToolExecutor = {
+  name: "move_task",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskId = validateTaskId(args.taskId);
+    const targetProjectId = validateRequiredStringParam(args.targetProjectId, "targetProjectId");
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.moveTask(projectId, taskId, targetProjectId);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(moveTaskToolExecutor.name, moveTaskToolExecutor);
+
+/**
+ * Tool executor for copying a task to another project
+ */
+const copyTaskToolExecutor: ToolExecutor = {
+  name: "copy_task",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskId = validateTaskId(args.taskId);
+    const targetProjectId = validateRequiredStringParam(args.targetProjectId, "targetProjectId");
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.copyTask(projectId, taskId, targetProjectId);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(copyTaskToolExecutor.name, copyTaskToolExecutor);
+
+/**
+ * Tool executor for breaking a task down into smaller tasks using an LLM
+ */
+const decomposeTaskToolExecutor: ToolExecutor = {
+  name: "decompose_task",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskId = validateTaskId(args.taskId);
+    const provider = validateRequiredStringParam(args.provider, "provider");
+    const model = validateRequiredStringParam(args.model, "model");
+    const mode = validateOptionalDecomposeMode(args.mode);
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.decomposeTask({
+      projectId,
+      taskId,
+      provider,
+      model,
+      mode,
+    });
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(decomposeTaskToolExecutor.name, decomposeTaskToolExecutor);
+
 /**
  * Tool executor for deleting tasks
  */
@@ -502,4 +902,24 @@ const approveTaskToolExecutor: ToolExecutor = {
     return resultData;
   },
 };
-toolExecutorMap.set(approveTaskToolExecutor.name, approveTaskToolExecutor);
\ No newline at end of file
+toolExecutorMap.set(approveTaskToolExecutor.name, approveTaskToolExecutor);
+
+/**
+ * Tool executor for rejecting completed tasks
+ */
+const rejectTaskToolExecutor: ToolExecutor = {
+  name: "reject_task",
+  async execute(taskManager, args) {
+    // 1. Argument Validation
+    const projectId = validateProjectId(args.projectId);
+    const taskId = validateTaskId(args.taskId);
+    const reason = validateRequiredStringParam(args.reason, "reason");
+
+    // 2. Core Logic Execution
+    const resultData = await taskManager.rejectTaskCompletion(projectId, taskId, reason);
+
+    // 3. Return raw success data
+    return resultData;
+  },
+};
+toolExecutorMap.set(rejectTaskToolExecutor.name, rejectTaskToolExecutor);
@@ -1,6 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { TaskManager } from "./TaskManager.js";
 import { toolExecutorMap } from "./toolExecutors.js";
+import { getProviderNames } from "./llm.js";
+import { ToolAccess, assertCanUseTool, canUseTool } from "./auth.js";
 import { AppError, AppErrorCode } from "../types/errors.js";
 import { McpError, CallToolResult, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 
@@ -13,7 +15,7 @@ import { McpError, CallToolResult, ErrorCode } from "@modelcontextprotocol/sdk/t
  */
 const listProjectsTool: Tool = {
   name: "list_projects",
-  description: "List all projects in the system and their basic information (ID, initial prompt, task counts), optionally filtered by state (open, pending_approval, completed, all).",
+  description: "List all projects in the system and their basic information (ID, initial prompt, task counts, timestamps), optionally filtered by state (open, pending_approval, completed, all) and sorted by a timestamp.",
   inputSchema: {
     type: "object",
     properties: {
@@ -22,6 +24,16 @@ const listProjectsTool: Tool = {
         enum: ["open", "pending_approval", "completed", "all"],
         description: "Filter projects by state. 'open' (any incomplete task), 'pending_approval' (any tasks awaiting approval), 'completed' (all tasks done and approved), or 'all' to skip filtering.",
       },
+      sortBy: {
+        type: "string",
+        enum: ["createdAt", "updatedAt", "completedAt"],
+        description: "Sort projects by this timestamp. Projects without the timestamp are listed last.",
+      },
+      sortOrder: {
+        type: "string",
+        enum: ["asc", "desc"],
+        description: "Sort direction when sortBy is set. Defaults to 'asc' (oldest first).",
+      },
     },
     required: [],
   },
@@ -34,7 +46,7 @@ const listProjectsTool: Tool = {
  */
 const readProjectTool: Tool = {
   name: "read_project",
-  description: "Read all information for a given project, by its ID, including its tasks' statuses.",
+  description: "Read all information for a given project, by its ID, including its tasks' statuses and which tasks are blocked by unfinished dependencies.",
   inputSchema: {
     type: "object",
     properties: {
@@ -88,6 +100,20 @@ const createProjectTool: Tool = {
               type: "string",
               description: "Recommendations for relevant rules to review when completing the task.",
             },
+            priority: {
+              type: "string",
+              enum: ["critical", "high", "normal", "low"],
+              description: "How urgent the task is. Defaults to 'normal'. Only affects the order of tasks in projects using the 'priority' ordering policy.",
+            },
+            dependsOn: {
+              type: "array",
+              items: { type: "string" },
+              description: "Tasks that must be done and approved before this task can start. Reference existing tasks in the project by ID (e.g., task-1) or other tasks in this request by title.",
+            },
+            parentId: {
+              type: "string",
+              description: "Makes this task a subtask of another task: an existing task in the project by ID (e.g., task-1), or a task listed earlier in this request by title. A parent can only be marked done once all its subtasks are done, and approved once they are approved.",
+            },
           },
           required: ["title", "description"],
         },
@@ -96,6 +122,11 @@ const createProjectTool: Tool = {
         type: "boolean",
         description: "If true, tasks will be automatically approved when marked as done. If false or not provided, tasks require manual approval.",
       },
+      orderingPolicy: {
+        type: "string",
+        enum: ["sequence", "priority", "oldest_first"],
+        description: "The order get_next_task and list_tasks go through tasks in: 'sequence' (the order tasks were added, the default), 'priority' (critical, high, normal, low, then in sequence), or 'oldest_first' (by creation time).",
+      },
     },
     required: ["initialPrompt", "tasks"],
   },
@@ -121,6 +152,35 @@ const deleteProjectTool: Tool = {
   },
 };
 
+/**
+ * Update Project Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {updateProjectToolExecutor}
+ */
+const updateProjectTool: Tool = {
+  name: "update_project",
+  description: "Update a project's settings: auto-approval and the order tasks are worked on in. Enabling autoApprove also approves any tasks currently awaiting approval.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project to update (e.g., proj-1).",
+      },
+      autoApprove: {
+        type: "boolean",
+        description: "If true, tasks will be automatically approved when marked as done. If false, tasks require manual approval.",
+      },
+      orderingPolicy: {
+        type: "string",
+        enum: ["sequence", "priority", "oldest_first"],
+        description: "The order get_next_task and list_tasks go through tasks in: 'sequence' (the order tasks were added, the default), 'priority' (critical, high, normal, low, then in sequence), or 'oldest_first' (by creation time).",
+      },
+    },
+    required: ["projectId"], // At least one of autoApprove and orderingPolicy must be provided
+  },
+};
+
 /**
  * Add Tasks to Project Tool
  * @param {object} args - A JSON object containing the arguments
@@ -158,6 +218,20 @@ const addTasksToProjectTool: Tool = {
               type: "string",
               description: "Recommendations for relevant rules to review when completing the task.",
             },
+            priority: {
+              type: "string",
+              enum: ["critical", "high", "normal", "low"],
+              description: "How urgent the task is. Defaults to 'normal'. Only affects the order of tasks in projects using the 'priority' ordering policy.",
+            },
+            dependsOn: {
+              type: "array",
+              items: { type: "string" },
+              description: "Tasks that must be done and approved before this task can start. Reference existing tasks in the project by ID (e.g., task-1) or other tasks in this request by title.",
+            },
+            parentId: {
+              type: "string",
+              description: "Makes this task a subtask of another task: an existing task in the project by ID (e.g., task-1), or a task listed earlier in this request by title. A parent can only be marked done once all its subtasks are done, and approved once they are approved.",
+            },
           },
           required: ["title", "description"],
         },
@@ -204,7 +278,6 @@ const generateProjectPlanTool: Tool = {
       },
       provider: {
         type: "string",
-        enum: ["openai", "google", "deepseek"],
         description: "The LLM provider to use (requires corresponding API key to be set).",
       },
       model: {
@@ -218,11 +291,91 @@ const generateProjectPlanTool: Tool = {
         },
         description: "Optional array of paths to files to attach as context. There is no need to read the files before calling this tool!",
       },
+      dryRun: {
+        type: "boolean",
+        description: "If true, return the generated plan and tasks without creating the project, together with a token to create it later with accept_generated_plan.",
+      },
     },
     required: ["prompt", "provider", "model"],
   },
 };
 
+/**
+ * Accept Generated Plan Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {acceptGeneratedPlanToolExecutor}
+ */
+const acceptGeneratedPlanTool: Tool = {
+  name: "accept_generated_plan",
+  description: "Create a project from a plan previewed with generate_project_plan and dryRun, exactly as it was shown. Previews expire after an hour and don't survive a server restart.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      token: {
+        type: "string",
+        description: "The token returned by generate_project_plan with dryRun.",
+      },
+    },
+    required: ["token"],
+  },
+};
+
+/**
+ * Refine Project Plan Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {refineProjectPlanToolExecutor}
+ */
+const refineProjectPlanTool: Tool = {
+  name: "refine_project_plan",
+  description: "Use an LLM to revise an existing project's plan and tasks according to feedback. Nothing is changed yet: the tool returns the proposed changes (added, removed and modified tasks, and the revised plan) together with a proposalId. Review them, then call apply_plan_refinement to apply them. Approved tasks are never changed. A new proposal replaces the project's previous one.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project to refine (e.g., proj-1).",
+      },
+      feedback: {
+        type: "string",
+        description: "What should change about the plan, e.g. missing steps or tasks that are no longer needed.",
+      },
+      provider: {
+        type: "string",
+        description: "The LLM provider to use (requires corresponding API key to be set).",
+      },
+      model: {
+        type: "string",
+        description: "The specific model to use (e.g., 'gpt-4-turbo' for OpenAI).",
+      },
+    },
+    required: ["projectId", "feedback", "provider", "model"],
+  },
+};
+
+/**
+ * Apply Plan Refinement Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {applyPlanRefinementToolExecutor}
+ */
+const applyPlanRefinementTool: Tool = {
+  name: "apply_plan_refinement",
+  description: "Apply the changes proposed by refine_project_plan, all at once. Fails without changing anything if a task the proposal touches was edited or approved since the proposal was made; call refine_project_plan again in that case. New tasks are added at the end of the project.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project (e.g., proj-1).",
+      },
+      proposalId: {
+        type: "string",
+        description: "The proposalId returned by refine_project_plan.",
+      },
+    },
+    required: ["projectId", "proposalId"],
+  },
+};
+
 // ---------------------- TASK TOOLS ----------------------
 
 /**
@@ -232,7 +385,7 @@ const generateProjectPlanTool: Tool = {
  */
 const listTasksTool: Tool = {
   name: "list_tasks",
-  description: "List all tasks, optionally filtered by project ID and/or state (open, pending_approval, completed, all). Tasks may include tool and rule recommendations to guide their completion.",
+  description: "List all tasks, optionally filtered by project ID, state (open, pending_approval, completed, all) and assignee. Tasks are listed in their project's ordering policy unless sorted by a timestamp. Tasks may include tool and rule recommendations to guide their completion.",
   inputSchema: {
     type: "object",
     properties: {
@@ -245,6 +398,20 @@ const listTasksTool: Tool = {
         enum: ["open", "pending_approval", "completed", "all"],
         description: "Filter tasks by state. 'open' (not started/in progress), 'pending_approval', 'completed', or 'all' to skip filtering.",
       },
+      sortBy: {
+        type: "string",
+        enum: ["createdAt", "updatedAt", "startedAt", "completedAt", "approvedAt"],
+        description: "Sort tasks by this timestamp. Tasks without the timestamp are listed last.",
+      },
+      sortOrder: {
+        type: "string",
+        enum: ["asc", "desc"],
+        description: "Sort direction when sortBy is set. Defaults to 'asc' (oldest first).",
+      },
+      assignee: {
+        type: "string",
+        description: "Only list tasks claimed by this agent ID (see claim_next_task).",
+      },
     },
     required: [], // Neither projectId nor state is required, both are optional filters
   },
@@ -257,7 +424,7 @@ const listTasksTool: Tool = {
  */
 const readTaskTool: Tool = {
   name: "read_task",
-  description: "Get details of a specific task by its ID. The task may include toolRecommendations and ruleRecommendations fields that should be used to guide task completion.",
+  description: "Get details of a specific task by its ID. The task may include toolRecommendations and ruleRecommendations fields that should be used to guide task completion, and reviewFeedback if a reviewer rejected an earlier attempt.",
   inputSchema: {
     type: "object",
     properties: {
@@ -274,6 +441,30 @@ const readTaskTool: Tool = {
   },
 };
 
+/**
+ * Read Task History Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {readTaskHistoryToolExecutor}
+ */
+const readTaskHistoryTool: Tool = {
+  name: "read_task_history",
+  description: "Get the audit history of a task (creation, status changes, field edits, approvals, rejections and deletion) with timestamps and actors. If taskId is omitted, returns the history of every task in the project.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project containing the task (e.g., proj-1).",
+      },
+      taskId: {
+        type: "string",
+        description: "The ID of the task whose history to read (e.g., task-1). If omitted, the whole project's task history is returned.",
+      },
+    },
+    required: ["projectId"],
+  },
+};
+
 /**
  * Create Task Tool
  * @param {object} args - A JSON object containing the arguments
@@ -304,6 +495,20 @@ const createTaskTool: Tool = {
       ruleRecommendations: {
         type: "string",
         description: "Recommendations for relevant rules to review when completing the task.",
+      },
+      priority: {
+        type: "string",
+        enum: ["critical", "high", "normal", "low"],
+        description: "How urgent the task is. Defaults to 'normal'. Only affects the order of tasks in projects using the 'priority' ordering policy.",
+      },
+      dependsOn: {
+        type: "array",
+        items: { type: "string" },
+        description: "IDs of tasks in the project (e.g., task-1) that must be done and approved before this task can start.",
+      },
+      parentId: {
+        type: "string",
+        description: "ID of a task in the project (e.g., task-1) to make this task a subtask of. A parent can only be marked done once all its subtasks are done, and approved once they are approved.",
       }
     },
     required: ["projectId", "title", "description"]
@@ -317,7 +522,7 @@ const createTaskTool: Tool = {
  */
 const updateTaskTool: Tool = {
   name: "update_task",
-  description: "Modify a task's properties. Note: (1) completedDetails are required when setting status to 'done', (2) approved tasks cannot be modified, (3) status must follow valid transitions: not started → in progress → done. You can also update tool and rule recommendations to guide task completion.",
+  description: "Modify a task's properties. Note: (1) completedDetails are required when setting status to 'done', (2) approved tasks cannot be modified, (3) status must follow valid transitions: not started → in progress → done, (4) in projects with autoApprove enabled, setting status to 'done' also approves the task. You can also update tool and rule recommendations to guide task completion.",
   inputSchema: {
     type: "object",
     properties: {
@@ -353,6 +558,16 @@ const updateTaskTool: Tool = {
       ruleRecommendations: {
         type: "string",
         description: "Recommendations for relevant rules to review when completing the task.",
+      },
+      priority: {
+        type: "string",
+        enum: ["critical", "high", "normal", "low"],
+        description: "How urgent the task is. Defaults to 'normal'. Only affects the order of tasks in projects using the 'priority' ordering policy.",
+      },
+      dependsOn: {
+        type: "array",
+        items: { type: "string" },
+        description: "Replaces the task's prerequisites with these task IDs (e.g., task-1). Pass an empty array to remove all dependencies.",
       }
     },
     required: ["projectId", "taskId"], // title, description, status are optional, but completedDetails is conditionally required
@@ -383,6 +598,124 @@ const deleteTaskTool: Tool = {
   },
 };
 
+/**
+ * Reorder Tasks Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {reorderTasksToolExecutor}
+ */
+const reorderTasksTool: Tool = {
+  name: "reorder_tasks",
+  description: "Change the sequence of a project's tasks without changing their IDs. Pass every task ID of the project in the new order. A task can't be moved ahead of a task it depends on. The sequence is the order get_next_task follows in projects using the default 'sequence' ordering policy.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project containing the tasks (e.g., proj-1).",
+      },
+      taskIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "All task IDs of the project (e.g., task-1) in their new order.",
+      },
+    },
+    required: ["projectId", "taskIds"],
+  },
+};
+
+/**
+ * Move Task Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {moveTaskToolExecutor}
+ */
+const moveTaskTool: Tool = {
+  name: "move_task",
+  description: "Move a task to another project, keeping its ID, details and history. The task is added at the end of the target project. Dependencies between the task and other tasks in its old project are removed. Approved tasks and tasks of completed projects can't be moved, and the target project must not be completed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project the task is in (e.g., proj-1).",
+      },
+      taskId: {
+        type: "string",
+        description: "The ID of the task to move (e.g., task-1).",
+      },
+      targetProjectId: {
+        type: "string",
+        description: "The ID of the project to move the task to (e.g., proj-2).",
+      },
+    },
+    required: ["projectId", "taskId", "targetProjectId"],
+  },
+};
+
+/**
+ * Copy Task Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {copyTaskToolExecutor}
+ */
+const copyTaskTool: Tool = {
+  name: "copy_task",
+  description: "Copy a task to another project under a new task ID, with its details and history. The original task is left unchanged. The copy is added at the end of the target project without dependencies. Approved tasks and tasks of completed projects can't be copied, and the target project must not be completed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project the task is in (e.g., proj-1).",
+      },
+      taskId: {
+        type: "string",
+        description: "The ID of the task to copy (e.g., task-1).",
+      },
+      targetProjectId: {
+        type: "string",
+        description: "The ID of the project to copy the task to (e.g., proj-2).",
+      },
+    },
+    required: ["projectId", "taskId", "targetProjectId"],
+  },
+};
+
+/**
+ * Decompose Task Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {decomposeTaskToolExecutor}
+ */
+const decomposeTaskTool: Tool = {
+  name: "decompose_task",
+  description: "Use an LLM to break a task down into smaller tasks. The LLM is given the task, the project plan and the tasks next to it. In 'subtasks' mode (the default) the generated tasks are added as subtasks of the task; in 'replace' mode they take the task's place, including its parent and dependencies. Approved tasks can't be decomposed, and tasks with subtasks can't be replaced.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project containing the task (e.g., proj-1).",
+      },
+      taskId: {
+        type: "string",
+        description: "The ID of the task to decompose (e.g., task-1).",
+      },
+      provider: {
+        type: "string",
+        description: "The LLM provider to use (requires corresponding API key to be set).",
+      },
+      model: {
+        type: "string",
+        description: "The specific model to use (e.g., 'gpt-4-turbo' for OpenAI).",
+      },
+      mode: {
+        type: "string",
+        enum: ["subtasks", "replace"],
+        description: "'subtasks' to add the generated tasks under the task (default), or 'replace' to replace the task with them.",
+      },
+    },
+    required: ["projectId", "taskId", "provider", "model"],
+  },
+};
+
 /**
  * Approve Task Tool
  * @param {object} args - A JSON object containing the arguments
@@ -407,6 +740,34 @@ const approveTaskTool: Tool = {
   }
 };
 
+/**
+ * Reject Task Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {rejectTaskToolExecutor}
+ */
+const rejectTaskTool: Tool = {
+  name: "reject_task",
+  description: "Reject a completed task that is awaiting approval. The task is moved back to 'in progress' and the reviewer's feedback is recorded on the task so the agent can address it. Note: This is a review operation that requires human intervention.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project containing the task (e.g., proj-1).",
+      },
+      taskId: {
+        type: "string",
+        description: "The ID of the task to reject (e.g., task-1).",
+      },
+      reason: {
+        type: "string",
+        description: "Feedback explaining why the task was rejected and what needs to change.",
+      }
+    },
+    required: ["projectId", "taskId", "reason"]
+  }
+};
+
 /**
  * Get Next Task Tool
  * @param {object} args - A JSON object containing the arguments
@@ -414,7 +775,7 @@ const approveTaskTool: Tool = {
  */
 const getNextTaskTool: Tool = {
   name: "get_next_task",
-  description: "Get the next task to be done in a project. Returns the first non-approved task in sequence, regardless of status. The task may include toolRecommendations and ruleRecommendations fields that should be used to guide task completion.",
+  description: "Get the next task to be done in a project. Returns the first non-approved task in the order set by the project's ordering policy (task sequence by default), regardless of status, skipping tasks whose dependencies are not yet done and approved. Tasks with open subtasks are worked on through their subtasks, so the deepest actionable subtask is returned; the parent comes next once all its subtasks are approved. The task may include toolRecommendations and ruleRecommendations fields that should be used to guide task completion, and reviewFeedback if a reviewer rejected an earlier attempt.",
   inputSchema: {
     type: "object",
     properties: {
@@ -427,34 +788,129 @@ const getNextTaskTool: Tool = {
   },
 };
 
+/**
+ * Claim Next Task Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {claimNextTaskToolExecutor}
+ */
+const claimNextTaskTool: Tool = {
+  name: "claim_next_task",
+  description: "Claim the next available task in a project for an agent, when several agents work on the same project. Like get_next_task, but skips tasks claimed by other agents and marks the claimed task 'in progress'. The claim is a lease that expires unless renewed with heartbeat_task; tasks whose lease expired go back to 'not started' for others to claim. Calling it again returns the task the agent already holds.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project to claim a task from (e.g., proj-1).",
+      },
+      agentId: {
+        type: "string",
+        description: "A stable ID for the agent claiming the task, unique among the agents working on the project.",
+      },
+      leaseSeconds: {
+        type: "number",
+        description: "How long the claim lasts without a heartbeat, in seconds. Defaults to 300, at most 86400 (one day).",
+      },
+    },
+    required: ["projectId", "agentId"],
+  },
+};
+
+/**
+ * Heartbeat Task Tool
+ * @param {object} args - A JSON object containing the arguments
+ * @see {heartbeatTaskToolExecutor}
+ */
+const heartbeatTaskTool: Tool = {
+  name: "heartbeat_task",
+  description: "Extend an agent's lease on a task it claimed with claim_next_task. Call it periodically while working on long tasks. Fails if the task is not claimed by the agent or the lease already expired.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      projectId: {
+        type: "string",
+        description: "The ID of the project containing the task (e.g., proj-1).",
+      },
+      taskId: {
+        type: "string",
+        description: "The ID of the claimed task (e.g., task-1).",
+      },
+      agentId: {
+        type: "string",
+        description: "The agent ID the task was claimed with.",
+      },
+      leaseSeconds: {
+        type: "number",
+        description: "New lease duration from now, in seconds. Defaults to 300, at most 86400 (one day).",
+      },
+    },
+    required: ["projectId", "taskId", "agentId"],
+  },
+};
+
 // Export all tools as an array
 export const ALL_TOOLS: Tool[] = [
   listProjectsTool,
   readProjectTool,
   createProjectTool,
+  updateProjectTool,
   deleteProjectTool,
   addTasksToProjectTool,
   finalizeProjectTool,
   generateProjectPlanTool,
+  acceptGeneratedPlanTool,
+  refineProjectPlanTool,
+  applyPlanRefinementTool,
 
   listTasksTool,
   readTaskTool,
+  readTaskHistoryTool,
   createTaskTool,
   updateTaskTool,
   deleteTaskTool,
+  reorderTasksTool,
+  moveTaskTool,
+  copyTaskTool,
+  decomposeTaskTool,
   approveTaskTool,
+  rejectTaskTool,
   getNextTaskTool,
+  claimNextTaskTool,
+  heartbeatTaskTool,
 ];
 
+/**
+ * Lists the tools a caller may use. The choices for `provider` arguments are
+ * filled in on each call, so providers registered after startup are included.
+ */
+export function listTools(access: ToolAccess = {}): Tool[] {
+  const providers = getProviderNames();
+  return ALL_TOOLS.filter((tool) => canUseTool(access, tool.name)).map((tool) => {
+    const properties = tool.inputSchema.properties as Record<string, object> | undefined;
+    if (!properties?.provider) {
+      return tool;
+    }
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...properties, provider: { ...properties.provider, enum: providers } },
+      },
+    };
+  });
+}
+
 /**
  * Finds and executes a tool, handling error classification.
  * - Throws errors tagged with `jsonRpcCode` for protocol issues (e.g., Not Found, Invalid Params).
  * - Catches other errors (tool execution failures) and returns the standard MCP error result format.
+ * - Tools the caller may not use (see ToolAccess) fail with a PermissionDenied execution error.
  */
 export async function executeToolAndHandleErrors(
   toolName: string,
   args: Record<string, unknown>,
-  taskManager: TaskManager
+  taskManager: TaskManager,
+  access: ToolAccess = {}
 ): Promise<CallToolResult> {
   const executor = toolExecutorMap.get(toolName);
 
@@ -465,8 +921,10 @@ export async function executeToolAndHandleErrors(
   }
 
   try {
+    assertCanUseTool(access, toolName, args);
+
     // 2. Execute the tool - Validation errors (protocol) or TaskManager errors (execution) might be thrown
-    const resultData = await executor.execute(taskManager, args);
+    const resultData = await executor.execute(taskManager, args, access);
 
     // 3. Format successful execution result
     return {
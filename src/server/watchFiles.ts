@@ -0,0 +1,42 @@
+import { watch, FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+
+/**
+ * Calls onChange when any of the given files is created, modified, replaced
+ * or removed. The containing directories are watched rather than the files,
+ * because atomic writes replace the file and a file watcher would stop at the
+ * first rename. Watchers don't keep the process alive.
+ * @returns A function that stops watching
+ */
+export function watchFiles(filePaths: string[], onChange: () => void): () => void {
+  const namesByDir = new Map<string, Set<string>>();
+  for (const filePath of filePaths) {
+    const dir = dirname(filePath);
+    if (!namesByDir.has(dir)) {
+      namesByDir.set(dir, new Set());
+    }
+    namesByDir.get(dir)!.add(basename(filePath));
+  }
+
+  const watchers: FSWatcher[] = [];
+  for (const [dir, names] of namesByDir) {
+    try {
+      const watcher = watch(dir, { persistent: false }, (_event, filename) => {
+        // Some platforms don't report the file name; treat that as a possible change
+        if (!filename || names.has(filename.toString())) {
+          onChange();
+        }
+      });
+      watcher.on("error", (error) => console.error(`Stopped watching ${dir}:`, error));
+      watchers.push(watcher);
+    } catch (error) {
+      console.error(`Failed to watch ${dir} for changes:`, error);
+    }
+  }
+
+  return () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  };
+}
@@ -1,4 +1,13 @@
 // Task and Project Interfaces
+export const TASK_PRIORITIES = ["critical", "high", "normal", "low"] as const;
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+// How get_next_task and list_tasks pick the order of a project's tasks:
+// "sequence" keeps the order tasks were added in, "priority" puts higher priorities
+// first and keeps that order within a priority, "oldest_first" goes by creation time
+export const ORDERING_POLICIES = ["sequence", "priority", "oldest_first"] as const;
+export type OrderingPolicy = typeof ORDERING_POLICIES[number];
+
 export interface Task {
     id: string;
     title: string;
@@ -8,8 +17,42 @@ export interface Task {
     completedDetails: string;
     toolRecommendations?: string;
     ruleRecommendations?: string;
+    priority?: TaskPriority; // Treated as "normal" when missing
+    parentId?: string; // ID of the task this is a subtask of; top-level tasks have none
+    dependsOn?: string[]; // IDs of tasks that must be done and approved first
+    reviewFeedback?: string; // Reason given by the reviewer when the task was last rejected
+    createdAt?: string; // ISO 8601
+    updatedAt?: string; // ISO 8601
+    startedAt?: string; // When the task last moved to "in progress"
+    completedAt?: string; // When the task was last marked "done"
+    approvedAt?: string;
+    assignee?: string; // ID of the agent that claimed the task
+    leaseExpiresAt?: string; // When the assignee's claim lapses unless renewed with a heartbeat
   }
   
+  export type TaskHistoryEventType =
+    | "created"
+    | "status_changed"
+    | "updated"
+    | "approved"
+    | "rejected"
+    | "deleted"
+    | "claimed"
+    | "lease_expired"
+    | "reordered"
+    | "moved"
+    | "copied"
+    | "decomposed";
+
+  // A single append-only entry in a project's task audit log
+  export interface TaskHistoryEvent {
+    taskId: string;
+    type: TaskHistoryEventType;
+    timestamp: string; // ISO 8601
+    actor: string;
+    details?: Record<string, unknown>;
+  }
+
   export interface Project {
     projectId: string;
     initialPrompt: string;
@@ -17,9 +60,32 @@ export interface Task {
     tasks: Task[];
     completed: boolean;
     autoApprove?: boolean;
+    orderingPolicy?: OrderingPolicy; // Treated as "sequence" when missing
+    history?: TaskHistoryEvent[]; // Kept at project level so events of deleted tasks survive
+    pendingRefinement?: PlanRefinement; // Latest refine_project_plan proposal, until it is applied
+    createdAt?: string; // ISO 8601
+    updatedAt?: string; // ISO 8601
+    completedAt?: string; // When the project was finalized
   }
   
+  // Task fields that refine_project_plan may change
+  export const REFINABLE_TASK_FIELDS = ["title", "description", "toolRecommendations", "ruleRecommendations"] as const;
+  export type RefinableTaskField = typeof REFINABLE_TASK_FIELDS[number];
+
+  // Changes to a project's plan and tasks proposed by an LLM, kept until they are applied
+  export interface PlanRefinement {
+    proposalId: string;
+    feedback: string;
+    projectPlan: string; // The refined plan
+    added: Array<Pick<Task, "title" | "description" | "toolRecommendations" | "ruleRecommendations">>;
+    removed: Array<{ id: string; title: string }>;
+    // Each change keeps the value it was proposed against, so outdated proposals can be detected
+    modified: Array<{ id: string; changes: Partial<Record<RefinableTaskField, { from?: string; to: string }>> }>;
+    createdAt: string; // ISO 8601
+  }
+
   export interface TaskManagerFile {
+    schemaVersion?: number; // Missing in files written before versioning was introduced
     projects: Project[];
   }
   
@@ -31,4 +97,18 @@ export interface Task {
   } as const;
   
   export type TaskState = "open" | "pending_approval" | "completed" | "all";
+
+  // Timestamp fields that list_tasks and list_projects can sort by
+  export const TASK_SORT_FIELDS = ["createdAt", "updatedAt", "startedAt", "completedAt", "approvedAt"] as const;
+  export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+  export const PROJECT_SORT_FIELDS = ["createdAt", "updatedAt", "completedAt"] as const;
+  export type ProjectSortField = typeof PROJECT_SORT_FIELDS[number];
+
+  export type SortOrder = "asc" | "desc";
+
+  // What decompose_task does with the generated tasks: "subtasks" adds them
+  // under the task, "replace" puts them in the task's place
+  export const DECOMPOSE_MODES = ["subtasks", "replace"] as const;
+  export type DecomposeMode = typeof DECOMPOSE_MODES[number];
   
\ No newline at end of file
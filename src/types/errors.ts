@@ -11,6 +11,7 @@ export enum AppErrorCode {
     InvalidState = 'ERR_2003', // e.g., invalid state filter
     InvalidProvider = 'ERR_2004', // e.g., invalid model provider
     InvalidModel = 'ERR_2005', // e.g., invalid model name or model not accessible
+    ProposalNotFound = 'ERR_2006', // No pending proposal with the given ID
 
     // No need for EmptyTaskFile code, handle during load
   
@@ -22,17 +23,29 @@ export enum AppErrorCode {
     TasksNotAllApproved = 'ERR_3004', // Cannot finalize project
     CannotModifyApprovedTask = 'ERR_3005', // Added for clarity
     TaskAlreadyApproved = 'ERR_3006', // Added for clarity
+    InvalidDependency = 'ERR_3007', // Unknown or self-referencing task dependency
+    DependencyCycle = 'ERR_3008', // Dependencies would form a cycle
+    InvalidStatusTransition = 'ERR_3009', // Status change not allowed by VALID_STATUS_TRANSITIONS
+    LeaseNotHeld = 'ERR_3010', // Task is not claimed by the agent, or its lease has expired
+    InvalidTaskOrder = 'ERR_3011', // Reordering would move a task ahead of a task it depends on
+    InvalidParentTask = 'ERR_3012', // Unknown or ambiguous parent task reference
+    SubtasksNotDone = 'ERR_3013', // Parent task can't be marked done or approved before its subtasks
+    ProposalOutdated = 'ERR_3014', // Tasks changed after the proposal was made
   
     // File System (ERR_4xxx)
     FileReadError = 'ERR_4000', // Includes not found, permission denied etc.
     FileWriteError = 'ERR_4001',
     FileParseError = 'ERR_4002', // If needed during JSON parsing
     ReadOnlyFileSystem = 'ERR_4003',
+    LockTimeout = 'ERR_4004', // Lock file still held by another process after the lock timeout
   
     // LLM Interaction Errors (ERR_5xxx)
     LLMGenerationError = 'ERR_5000',
     LLMConfigurationError = 'ERR_5001', // Auth, key issues specifically with LLM provider call
   
+    // Authorization Errors (ERR_6xxx)
+    PermissionDenied = 'ERR_6000', // Caller's role may not use this tool
+  
     // Unknown / Catch-all (ERR_9xxx)
     Unknown = 'ERR_9999'
   }
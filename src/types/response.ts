@@ -1,4 +1,4 @@
-import { Task } from "./data.js";
+import { Task, TaskHistoryEvent, OrderingPolicy, DecomposeMode, PlanRefinement } from "./data.js";
 
 // Define the structure for createProject success data
 export interface ProjectCreationSuccessData {
@@ -21,16 +21,50 @@ export interface ProjectCreationSuccessData {
     };
   }
   
+  export interface RejectTaskSuccessData {
+    projectId: string;
+    task: {
+      id: string;
+      title: string;
+      description: string;
+      status: Task["status"];
+      completedDetails: string;
+      reviewFeedback: string;
+    };
+    message: string;
+  }
+
   export interface ApproveProjectSuccessData {
     projectId: string;
     message: string;
   }
   
+  export interface UpdateProjectSuccessData {
+    projectId: string;
+    autoApprove: boolean;
+    orderingPolicy: OrderingPolicy;
+    message: string;
+  }
+
   export interface OpenTaskSuccessData {
     projectId: string;
     task: Task;
+    message?: string;
   }
   
+  export interface ClaimTaskSuccessData {
+    projectId: string;
+    task: Task;
+    message: string;
+  }
+
+  export interface HeartbeatTaskSuccessData {
+    projectId: string;
+    taskId: string;
+    assignee: string;
+    leaseExpiresAt: string;
+  }
+
   export interface ListProjectsSuccessData {
     message: string;
     projects: Array<{
@@ -39,12 +73,15 @@ export interface ProjectCreationSuccessData {
       totalTasks: number;
       completedTasks: number;
       approvedTasks: number;
+      createdAt?: string;
+      updatedAt?: string;
+      completedAt?: string;
     }>;
   }
   
   export interface ListTasksSuccessData {
     message: string;
-    tasks: Task[]; // Use the full Task type
+    tasks: Task[]; // Use the full Task type, including its timestamps
   }
   
   export interface AddTasksSuccessData {
@@ -52,9 +89,66 @@ export interface ProjectCreationSuccessData {
     newTasks: Array<{ id: string; title: string; description: string }>;
   }
   
+  export interface TaskHistorySuccessData {
+    projectId: string;
+    taskId?: string;
+    events: TaskHistoryEvent[];
+  }
+
+  export interface ReorderTasksSuccessData {
+    projectId: string;
+    taskIds: string[]; // The project's tasks in their new order
+    message: string;
+  }
+
+  // Result of moving or copying a task to another project
+  export interface TransferTaskSuccessData {
+    sourceProjectId: string;
+    targetProjectId: string;
+    task: Task; // The task as it now is in the target project
+    message: string;
+  }
+
+  export interface DecomposeTaskSuccessData {
+    projectId: string;
+    taskId: string;
+    mode: DecomposeMode;
+    newTasks: Array<{ id: string; title: string; description: string }>;
+    message: string;
+  }
+
+  // A generated plan that is not saved yet, to be created with accept_generated_plan
+  export interface GeneratedPlanPreviewData {
+    token: string;
+    prompt: string;
+    projectPlan: string;
+    tasks: Array<Pick<Task, "title" | "description" | "toolRecommendations" | "ruleRecommendations">>;
+    expiresAt: string; // ISO 8601
+    message: string;
+  }
+
+  // A proposed refinement, to be reviewed and then applied with apply_plan_refinement
+  export interface RefineProjectPlanSuccessData extends PlanRefinement {
+    projectId: string;
+    message: string;
+  }
+
+  export interface ApplyPlanRefinementSuccessData {
+    projectId: string;
+    addedTaskIds: string[];
+    removedTaskIds: string[];
+    modifiedTaskIds: string[];
+    message: string;
+  }
+
   export interface DeleteTaskSuccessData {
     message: string;
   }
+
+  export interface DeleteProjectSuccessData {
+    status: "project_deleted";
+    message: string;
+  }
   
   export interface ReadProjectSuccessData {
     projectId: string;
@@ -62,6 +156,11 @@ export interface ProjectCreationSuccessData {
     projectPlan: string;
     completed: boolean;
     autoApprove?: boolean;
+    orderingPolicy?: OrderingPolicy;
+    createdAt?: string;
+    updatedAt?: string;
+    completedAt?: string;
     tasks: Task[];
+    blockedTasks: Array<{ taskId: string; blockedBy: string[] }>;
   }
   
\ No newline at end of file
@@ -136,6 +136,155 @@ describe("CLI Integration Tests", () => {
     expect(noTasks).toContain("No tasks found matching state 'completed' in project proj-1");
   }, 5000);
 
+  it("should sort projects and show their ages via CLI", async () => {
+    const data = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+    data.projects[0].createdAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+    data.projects[1].createdAt = new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString();
+    await fs.writeFile(tasksFilePath, JSON.stringify(data));
+
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} list --sort createdAt --order desc`);
+    expect(stdout).toContain("Created");
+    expect(stdout).toContain("2d");
+    expect(stdout).toContain("3h");
+    expect(stdout.indexOf("proj-2")).toBeLessThan(stdout.indexOf("proj-1"));
+    // Projects without a creation time are listed last
+    expect(stdout.indexOf("proj-1")).toBeLessThan(stdout.indexOf("proj-3"));
+  }, 5000);
+
+  it("should reject an invalid sort field via CLI", async () => {
+    const { stderr } = await execAsync(
+      `TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} list -p proj-1 --sort title`
+    ).catch(error => error);
+    expect(stderr).toContain("Invalid sort field: title");
+  }, 5000);
+
+  it("should toggle auto-approval for a project via CLI", async () => {
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} update-project proj-2 --auto-approve`);
+    expect(stdout).toContain("Auto-approval enabled for project proj-2");
+    expect(stdout).toContain("1 task(s) awaiting approval were approved");
+
+    const { stdout: pendingOutput } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} list -p proj-2 -s pending_approval`);
+    expect(pendingOutput).toContain("No tasks found matching state 'pending_approval' in project proj-2");
+
+    const { stdout: disableOutput } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} update-project proj-2 --no-auto-approve`);
+    expect(disableOutput).toContain("Auto-approval disabled for project proj-2");
+  }, 10000);
+
+  it("should update a task's status via CLI", async () => {
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} update-task proj-1 task-1 --status "in progress"`);
+    expect(stdout).toContain("Task task-1 in project proj-1 has been updated");
+    expect(stdout).toContain("in progress");
+  }, 5000);
+
+  it("should move a task before another task via CLI", async () => {
+    const tasksFile = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+    tasksFile.projects[0].tasks.push({
+      id: "task-4",
+      title: "second open task",
+      description: "test",
+      status: "not started",
+      approved: false,
+      completedDetails: ""
+    });
+    await fs.writeFile(tasksFilePath, JSON.stringify(tasksFile));
+
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} move-task proj-1 task-4 --before task-1`);
+    expect(stdout).toContain("Moved 1 task(s) in project proj-1");
+    expect(stdout).toContain("task-4 → task-1");
+
+    const updated = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+    expect(updated.projects[0].tasks.map((t: { id: string }) => t.id)).toEqual(["task-4", "task-1"]);
+  }, 5000);
+
+  it("should move and copy tasks between projects via CLI", async () => {
+    const { stdout: copyOutput } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} copy-task proj-1 task-1 --to proj-2`);
+    expect(copyOutput).toContain("Task task-1 copied from project proj-1 to project proj-2 as task-4");
+
+    const { stdout: moveOutput } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} move-task proj-1 task-1 --to proj-2`);
+    expect(moveOutput).toContain("Task task-1 moved from project proj-1 to project proj-2");
+
+    const tasksFile = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+    expect(tasksFile.projects[0].tasks).toEqual([]);
+    expect(tasksFile.projects[1].tasks.map((t: { id: string }) => t.id)).toEqual(["task-2", "task-4", "task-1"]);
+  }, 10000);
+
+  it("should show subtasks indented under their parent via CLI", async () => {
+    const tasksFile = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+    tasksFile.projects[0].tasks.push({
+      id: "task-4",
+      title: "open subtask",
+      description: "test",
+      status: "not started",
+      approved: false,
+      completedDetails: "",
+      parentId: "task-1"
+    });
+    await fs.writeFile(tasksFilePath, JSON.stringify(tasksFile));
+
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} list -p proj-1`);
+    expect(stdout).toContain("└ open subtask");
+    expect(stdout.indexOf("task-1")).toBeLessThan(stdout.indexOf("task-4"));
+  }, 5000);
+
+  it("should reject an invalid status transition via CLI", async () => {
+    const { stderr } = await execAsync(
+      `TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} update-task proj-1 task-1 --status done --completed-details "skipped"`
+    ).catch(error => error);
+
+    expect(stderr).toContain("[ERR_3009]");
+    expect(stderr).toContain("Allowed next states: \"in progress\"");
+    expect(stderr).toContain("\"allowedTransitions\":[\"in progress\"]");
+  }, 5000);
+
+  it("should reject a completed task with feedback via CLI", async () => {
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} reject proj-2 task-2 --reason "Needs more tests"`);
+    expect(stdout).toContain("Task task-2 in project proj-2 has been rejected");
+    expect(stdout).toContain("Needs more tests");
+
+    const tasksFile = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+    const task = tasksFile.projects[1].tasks[0];
+    expect(task.status).toBe("in progress");
+    expect(task.reviewFeedback).toBe("Needs more tests");
+  }, 5000);
+
+  it("should show a task's history via CLI", async () => {
+    await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} reject proj-2 task-2 --reason "Needs more tests"`);
+
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} history proj-2 task-2`);
+    expect(stdout).toContain("History for task task-2 in project proj-2");
+    expect(stdout).toContain("rejected: Needs more tests");
+    expect(stdout).toContain("(by human)");
+  }, 10000);
+
+  it("should migrate the tasks file to the current schema version via CLI", async () => {
+    const original = await fs.readFile(tasksFilePath, "utf-8");
+    const { stdout: dryRun } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} migrate --dry-run`);
+    expect(dryRun).toContain("Would migrate");
+    expect(dryRun).toContain("from schema version 0 to 2");
+    expect(await fs.readFile(tasksFilePath, "utf-8")).toBe(original);
+
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} migrate`);
+    expect(stdout).toContain(`Original file backed up to ${tasksFilePath}.v0.bak`);
+    expect(JSON.parse(await fs.readFile(tasksFilePath, "utf-8")).schemaVersion).toBe(2);
+    expect(await fs.readFile(`${tasksFilePath}.v0.bak`, "utf-8")).toBe(original);
+  }, 10000);
+
+  it("should import the tasks file into SQLite via CLI", async () => {
+    const dbPath = path.join(tempDir, "tasks.db");
+    const { stdout } = await execAsync(`TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} migrate-to-sqlite --db ${dbPath}`);
+    expect(stdout).toContain("Imported 3 project(s) and 3 task(s)");
+
+    const { stdout: listOutput } = await execAsync(
+      `TASK_MANAGER_STORE=sqlite TASK_MANAGER_SQLITE_PATH=${dbPath} TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} list -p proj-2`
+    );
+    expect(listOutput).toContain("task-2");
+
+    const { stderr } = await execAsync(
+      `TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} migrate-to-sqlite --db ${dbPath}`
+    ).catch(error => error);
+    expect(stderr).toContain("already contains 3 project(s)");
+  }, 15000);
+
   describe("generate-plan command", () => {
     beforeEach(() => {
       // Set mock API keys for testing
@@ -172,5 +321,35 @@ describe("CLI Integration Tests", () => {
       expect(stderr).toContain("[ERR_4000] Failed to read attachment file: nonexistent.txt");
       expect(stderr).toContain("-> Details: Attachment file not found: nonexistent.txt");
     }, 5000);
+
+    it("should not create a project when a dry run fails", async () => {
+      const { stderr } = await execAsync(
+        `TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} generate-plan --prompt "Create app" --provider invalid_provider --dry-run`
+      ).catch(error => error);
+
+      expect(stderr).toContain("Invalid provider: invalid_provider");
+      const tasksFile = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+      expect(tasksFile.projects).toHaveLength(3);
+    }, 5000);
+  });
+
+  describe("decompose command", () => {
+    it("should reject an invalid provider without changing the task", async () => {
+      const { stderr } = await execAsync(
+        `TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} decompose proj-1 task-1 --provider invalid_provider`
+      ).catch(error => error);
+
+      expect(stderr).toContain("Invalid provider: invalid_provider");
+      const tasksFile = JSON.parse(await fs.readFile(tasksFilePath, "utf-8"));
+      expect(tasksFile.projects[0].tasks.map((t: { id: string }) => t.id)).toEqual(["task-1"]);
+    }, 5000);
+
+    it("should refuse to decompose tasks of a completed project", async () => {
+      const { stderr } = await execAsync(
+        `TASK_MANAGER_FILE_PATH=${tasksFilePath} tsx ${CLI_PATH} decompose proj-3 task-3`
+      ).catch(error => error);
+
+      expect(stderr).toContain("Project is already completed");
+    }, 5000);
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  verifyTaskInFile,
+  readTaskManagerFile,
+  TestContext
+} from './test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+describe('Agent mode', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext(undefined, false, { TASK_MANAGER_AGENT_MODE: 'true' });
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  it('should hide the review tools', async () => {
+    const tools = (await context.client.listTools()).tools.map(t => t.name);
+    expect(tools).toContain('update_task');
+    expect(tools).toContain('delete_project');
+    expect(tools).not.toContain('approve_task');
+    expect(tools).not.toContain('reject_task');
+    expect(tools).not.toContain('finalize_project');
+  });
+
+  it('should reject calls to the review tools', async () => {
+    const project = await createTestProjectInFile(context.testFilePath, {
+      initialPrompt: 'Agent Project'
+    });
+    const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+      status: 'done',
+      completedDetails: 'Done'
+    });
+
+    const result = await context.client.callTool({
+      name: 'approve_task',
+      arguments: { projectId: project.projectId, taskId: task.id }
+    }) as CallToolResult;
+    verifyToolExecutionError(result, /Permission denied: approve_task is reserved for human reviewers/);
+    await verifyTaskInFile(context.testFilePath, project.projectId, task.id, { approved: false });
+
+    const finalize = await context.client.callTool({
+      name: 'finalize_project',
+      arguments: { projectId: project.projectId }
+    }) as CallToolResult;
+    verifyToolExecutionError(finalize, /Permission denied: finalize_project is reserved for human reviewers/);
+  });
+
+  it('should tell the agent to wait for approval of a done task', async () => {
+    const project = await createTestProjectInFile(context.testFilePath, {
+      initialPrompt: 'Agent Project'
+    });
+    const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+      status: 'done',
+      completedDetails: 'Done'
+    });
+
+    const result = await context.client.callTool({
+      name: 'get_next_task',
+      arguments: { projectId: project.projectId }
+    }) as CallToolResult;
+
+    const responseData = verifyToolSuccessResponse<{ task: { id: string }; message: string }>(result);
+    expect(responseData.task.id).toBe(task.id);
+    expect(responseData.message).toContain('awaiting human approval');
+    expect(responseData.message).toContain(`taskqueue approve ${project.projectId} ${task.id}`);
+  });
+
+  it('should not let update_project turn on autoApprove', async () => {
+    const project = await createTestProjectInFile(context.testFilePath, {
+      initialPrompt: 'Agent Project'
+    });
+    const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+      status: 'done',
+      completedDetails: 'Done'
+    });
+
+    const result = await context.client.callTool({
+      name: 'update_project',
+      arguments: { projectId: project.projectId, autoApprove: true }
+    }) as CallToolResult;
+    verifyToolExecutionError(result, /Permission denied: autoApprove on update_project approves tasks without review/);
+    await verifyTaskInFile(context.testFilePath, project.projectId, task.id, { approved: false });
+    const data = await readTaskManagerFile(context.testFilePath);
+    expect(data.projects.find(p => p.projectId === project.projectId)!.autoApprove).toBeFalsy();
+  });
+
+  it('should not let create_project turn on autoApprove', async () => {
+    const result = await context.client.callTool({
+      name: 'create_project',
+      arguments: {
+        initialPrompt: 'Self-approving Project',
+        tasks: [{ title: 'Task', description: 'Description' }],
+        autoApprove: true
+      }
+    }) as CallToolResult;
+    verifyToolExecutionError(result, /Permission denied: autoApprove on create_project approves tasks without review/);
+
+    const data = await readTaskManagerFile(context.testFilePath);
+    expect(data.projects.map(p => p.initialPrompt)).not.toContain('Self-approving Project');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  TestContext
+} from './test-helpers.js';
+
+describe('MCP Prompts', () => {
+  let context: TestContext;
+  let promptsDir: string;
+
+  beforeAll(async () => {
+    promptsDir = path.join(os.tmpdir(), `taskqueue-prompts-test-${Date.now()}`);
+    await fs.mkdir(promptsDir, { recursive: true });
+    await fs.writeFile(path.join(promptsDir, 'code_review.md'), 'Review the changes for {{projectId}} focusing on {{focus}}. Check {{focus}} twice.');
+    await fs.writeFile(path.join(promptsDir, 'plan_project.md'), 'This template is shadowed by the built-in prompt');
+    await fs.writeFile(path.join(promptsDir, 'notes.json'), '{}');
+
+    context = await setupTestContext(undefined, false, { TASK_MANAGER_PROMPTS_DIR: promptsDir });
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+    await fs.rm(promptsDir, { recursive: true, force: true });
+  });
+
+  describe('Success Cases', () => {
+    it('should list built-in prompts and custom templates', async () => {
+      const result = await context.client.listPrompts();
+      expect(result.prompts.map(p => p.name)).toEqual([
+        'plan_project',
+        'work_next_task',
+        'summarize_project',
+        'code_review',
+      ]);
+      expect(result.prompts[3].arguments).toEqual([
+        { name: 'projectId', required: true },
+        { name: 'focus', required: true },
+      ]);
+    });
+
+    it('should render the plan_project prompt', async () => {
+      const result = await context.client.getPrompt({ name: 'plan_project', arguments: { goal: 'Build a todo app' } });
+      const text = result.messages[0].content.text as string;
+      expect(result.messages[0].role).toBe('user');
+      expect(text).toContain('Build a todo app');
+      expect(text).toContain('`create_project`');
+    });
+
+    it('should fill the work_next_task prompt with the next task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: 'Work Project',
+        projectPlan: 'Ship the feature'
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: 'Finished Task', status: 'done', approved: true, completedDetails: 'Done'
+      });
+      const next = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: 'Next Task', description: 'Write the code', toolRecommendations: 'Use the editor'
+      });
+
+      const result = await context.client.getPrompt({ name: 'work_next_task', arguments: { projectId: project.projectId } });
+      const text = result.messages[0].content.text as string;
+      expect(text).toContain('Ship the feature');
+      expect(text).toContain(`### ${next.id}: Next Task`);
+      expect(text).toContain('Tool recommendations: Use the editor');
+      expect(text).not.toContain('Finished Task');
+    });
+
+    it('should fill the summarize_project prompt with task counts', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: 'Summary Project' });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { status: 'done', completedDetails: 'Done' });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { status: 'in progress' });
+
+      const result = await context.client.getPrompt({ name: 'summarize_project', arguments: { projectId: project.projectId } });
+      const text = result.messages[0].content.text as string;
+      expect(text).toContain('Initial prompt: Summary Project');
+      expect(text).toContain('Tasks: 2 total, 0 not started, 1 in progress, 1 awaiting approval, 0 approved');
+    });
+
+    it('should substitute arguments into a custom template', async () => {
+      const result = await context.client.getPrompt({ name: 'code_review', arguments: { projectId: 'proj-1', focus: 'tests' } });
+      expect(result.messages[0].content.text).toBe('Review the changes for proj-1 focusing on tests. Check tests twice.');
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return an error for an unknown prompt', async () => {
+      try {
+        await context.client.getPrompt({ name: 'non_existent_prompt' });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, 'Unknown prompt: non_existent_prompt');
+      }
+    });
+
+    it('should return an error for a missing argument', async () => {
+      try {
+        await context.client.getPrompt({ name: 'code_review', arguments: { projectId: 'proj-1' } });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, 'Missing required argument: focus');
+      }
+    });
+
+    it('should return an error for a non-existent project', async () => {
+      try {
+        await context.client.getPrompt({ name: 'summarize_project', arguments: { projectId: 'non_existent_project' } });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, 'Project non_existent_project not found');
+      }
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  readTaskManagerFile,
+  writeTaskManagerFile,
+  TestContext
+} from './test-helpers.js';
+import {
+  ResourceUpdatedNotificationSchema,
+  ResourceListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Polls until the condition holds or the timeout expires
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for notification');
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('Resource change notifications', () => {
+  let context: TestContext;
+  let updatedUris: string[];
+  let listChangedCount: number;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+    context.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updatedUris.push(notification.params.uri);
+    });
+    context.client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChangedCount++;
+    });
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  beforeEach(() => {
+    updatedUris = [];
+    listChangedCount = 0;
+  });
+
+  it('should send list_changed when another process adds a project', async () => {
+    await createTestProjectInFile(context.testFilePath, { initialPrompt: 'Added Elsewhere' });
+
+    await waitFor(() => listChangedCount > 0);
+  });
+
+  it('should notify subscribers when another process changes a task', async () => {
+    const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: 'Watched Project' });
+    const task = await createTestTaskInFile(context.testFilePath, project.projectId, { status: 'done' });
+    const taskUri = `taskqueue://projects/${project.projectId}/tasks/${task.id}`;
+    await context.client.subscribeResource({ uri: taskUri });
+    await context.client.subscribeResource({ uri: `taskqueue://projects/${project.projectId}` });
+    await new Promise(resolve => setTimeout(resolve, 500));
+    updatedUris = [];
+
+    // Approve the task the way the CLI would, by writing the file directly
+    const data = await readTaskManagerFile(context.testFilePath);
+    data.projects.find(p => p.projectId === project.projectId)!.tasks[0].approved = true;
+    await writeTaskManagerFile(context.testFilePath, data);
+
+    await waitFor(() => updatedUris.includes(taskUri));
+    expect(updatedUris).toContain(`taskqueue://projects/${project.projectId}`);
+  });
+
+  it('should notify subscribers of changes made through tools', async () => {
+    const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: 'Tool Project' });
+    const task = await createTestTaskInFile(context.testFilePath, project.projectId, {});
+    const taskUri = `taskqueue://projects/${project.projectId}/tasks/${task.id}`;
+    await context.client.subscribeResource({ uri: taskUri });
+    await new Promise(resolve => setTimeout(resolve, 500));
+    updatedUris = [];
+
+    await context.client.callTool({
+      name: 'update_task',
+      arguments: { projectId: project.projectId, taskId: task.id, title: 'Renamed' }
+    });
+
+    await waitFor(() => updatedUris.includes(taskUri));
+  });
+
+  it('should not notify about resources nobody subscribed to', async () => {
+    const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: 'Subscribed Project' });
+    const other = await createTestProjectInFile(context.testFilePath, { projectId: 'proj-unsubscribed', initialPrompt: 'Other Project' });
+    const projectUri = `taskqueue://projects/${project.projectId}`;
+    await context.client.subscribeResource({ uri: projectUri });
+    await context.client.unsubscribeResource({ uri: projectUri });
+    await new Promise(resolve => setTimeout(resolve, 500));
+    updatedUris = [];
+
+    await createTestTaskInFile(context.testFilePath, project.projectId, {});
+    await createTestTaskInFile(context.testFilePath, other.projectId, {});
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    expect(updatedUris).toEqual([]);
+  });
+});
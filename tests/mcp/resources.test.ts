@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  TestContext
+} from './test-helpers.js';
+
+/**
+ * Reads a resource and parses its JSON contents
+ */
+async function readJsonResource(context: TestContext, uri: string): Promise<any> {
+  const result = await context.client.readResource({ uri });
+  expect(result.contents).toHaveLength(1);
+  expect(result.contents[0]).toMatchObject({ uri, mimeType: 'application/json' });
+  return JSON.parse(result.contents[0].text as string);
+}
+
+describe('MCP Resources', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  describe('Success Cases', () => {
+    it('should list the project templates', async () => {
+      const result = await context.client.listResourceTemplates();
+      expect(result.resourceTemplates.map(t => t.uriTemplate)).toEqual([
+        'taskqueue://projects/{projectId}',
+        'taskqueue://projects/{projectId}/tasks/{taskId}',
+      ]);
+    });
+
+    it('should list the project list and each project as resources', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: 'Listed Project'
+      });
+
+      const result = await context.client.listResources();
+      const uris = result.resources.map(r => r.uri);
+      expect(uris[0]).toBe('taskqueue://projects');
+      expect(result.resources).toContainEqual(expect.objectContaining({
+        uri: `taskqueue://projects/${project.projectId}`,
+        description: 'Listed Project',
+        mimeType: 'application/json'
+      }));
+    });
+
+    it('should read the project list', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: 'Project In List'
+      });
+
+      const data = await readJsonResource(context, 'taskqueue://projects');
+      expect(data.projects).toContainEqual(expect.objectContaining({
+        projectId: project.projectId,
+        initialPrompt: 'Project In List'
+      }));
+    });
+
+    it('should read a project with its tasks', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: 'Readable Project',
+        projectPlan: 'The plan'
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: 'Readable Task'
+      });
+
+      const data = await readJsonResource(context, `taskqueue://projects/${project.projectId}`);
+      expect(data).toMatchObject({
+        projectId: project.projectId,
+        projectPlan: 'The plan',
+        tasks: [expect.objectContaining({ id: task.id, title: 'Readable Task' })]
+      });
+    });
+
+    it('should read a single task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: 'Project With Task'
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: 'Single Task',
+        description: 'Task description'
+      });
+
+      const data = await readJsonResource(context, `taskqueue://projects/${project.projectId}/tasks/${task.id}`);
+      expect(data.task).toMatchObject({
+        id: task.id,
+        title: 'Single Task',
+        description: 'Task description'
+      });
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return an error for an unknown resource', async () => {
+      try {
+        await context.client.readResource({ uri: 'taskqueue://unknown' });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, 'Unknown resource: taskqueue://unknown');
+      }
+    });
+
+    it('should return an error for a non-existent project', async () => {
+      try {
+        await context.client.readResource({ uri: 'taskqueue://projects/non_existent_project' });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, 'Project non_existent_project not found');
+      }
+    });
+
+    it('should return an error for a non-existent task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: 'Project Without Task'
+      });
+
+      try {
+        await context.client.readResource({ uri: `taskqueue://projects/${project.projectId}/tasks/task-999` });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, 'task-999');
+      }
+    });
+  });
+});
@@ -6,6 +6,8 @@ import { FileSystemService } from "../../src/server/FileSystemService.js";
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
 import process from 'node:process';
 import dotenv from 'dotenv';
 
@@ -53,6 +55,7 @@ export async function setupTestContext(
       // Use custom env if provided, otherwise use default API keys
       ...(customEnv || {
         OPENAI_API_KEY: process.env.OPENAI_API_KEY ?? '',
+        ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY ?? '',
         GOOGLE_GENERATIVE_AI_API_KEY: process.env.GOOGLE_GENERATIVE_AI_API_KEY ?? '',
         DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY ?? ''
       })
@@ -298,4 +301,52 @@ export async function createTestTaskInFile(filePath: string, projectId: string,
   project.tasks.push(newTask);
   await writeTaskManagerFile(filePath, data);
   return newTask;
-} 
\ No newline at end of file
+} 
+
+export interface MockLLMServer {
+  /** Base URL to use as OPENAI_COMPATIBLE_BASE_URL */
+  baseURL: string;
+  /** Requests received so far, with their parsed JSON bodies */
+  requests: Array<{ url?: string; authorization?: string; body: any }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a local server that stands in for an OpenAI-compatible model server,
+ * answering every chat completion with the given object as structured output.
+ */
+export async function startMockLLMServer(output: unknown): Promise<MockLLMServer> {
+  const requests: MockLLMServer["requests"] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: "local-model",
+        choices: [{
+          index: 0,
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [{ id: "call-1", type: "function", function: { name: "json", arguments: JSON.stringify(output) } }]
+          },
+          finish_reason: "tool_calls"
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 }
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+  };
+}
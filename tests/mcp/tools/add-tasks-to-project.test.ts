@@ -76,6 +76,26 @@ describe('add_tasks_to_project Tool', () => {
       }
     });
 
+    it('should add subtasks whose parent is listed earlier in the same request', async () => {
+      const result = await context.client.callTool({
+        name: "add_tasks_to_project",
+        arguments: {
+          projectId,
+          tasks: [
+            { title: "Parent", description: "Top-level task" },
+            { title: "Child", description: "Subtask of Parent", parentId: "Parent" },
+            { title: "Grandchild", description: "Subtask of Child", parentId: "Child" }
+          ]
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const responseData = JSON.parse((result.content[0] as { text: string }).text);
+      const [parent, child, grandchild] = responseData.newTasks;
+      await verifyTaskInFile(context.testFilePath, projectId, child.id, { parentId: parent.id });
+      await verifyTaskInFile(context.testFilePath, projectId, grandchild.id, { parentId: child.id });
+    });
+
     it('should add tasks with tool and rule recommendations', async () => {
       const result = await context.client.callTool({
         name: "add_tasks_to_project",
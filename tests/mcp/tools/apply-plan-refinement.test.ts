@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  readTaskManagerFile,
+  writeTaskManagerFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { PlanRefinement } from "../../../src/types/data.js";
+
+interface ApplyPlanRefinementResponse {
+  projectId: string;
+  addedTaskIds: string[];
+  removedTaskIds: string[];
+  modifiedTaskIds: string[];
+  message: string;
+}
+
+describe('apply_plan_refinement Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  // Stores a proposal as refine_project_plan would, without calling an LLM
+  async function proposeRefinement(projectId: string, refinement: Partial<PlanRefinement>): Promise<PlanRefinement> {
+    const data = await readTaskManagerFile(context.testFilePath);
+    const project = data.projects.find(p => p.projectId === projectId)!;
+    project.pendingRefinement = {
+      proposalId: `proposal-${Date.now()}`,
+      feedback: "Test feedback",
+      projectPlan: "Refined plan",
+      added: [],
+      removed: [],
+      modified: [],
+      createdAt: new Date().toISOString(),
+      ...refinement
+    };
+    await writeTaskManagerFile(context.testFilePath, data);
+    return project.pendingRefinement;
+  }
+
+  async function applyRefinement(projectId: string, proposalId: string) {
+    return await context.client.callTool({
+      name: "apply_plan_refinement",
+      arguments: { projectId, proposalId }
+    }) as CallToolResult;
+  }
+
+  describe('Success Cases', () => {
+    it('should apply all proposed changes in one go', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Refined Project",
+        projectPlan: "Original plan"
+      });
+      const kept = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Kept" });
+      const removed = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Removed" });
+      const dependent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Dependent",
+        dependsOn: [removed.id]
+      });
+      const proposal = await proposeRefinement(project.projectId, {
+        added: [{ title: "Added", description: "A new step" }],
+        removed: [{ id: removed.id, title: removed.title }],
+        modified: [{ id: kept.id, changes: { title: { from: "Kept", to: "Kept (clarified)" } } }]
+      });
+
+      const result = await applyRefinement(project.projectId, proposal.proposalId);
+
+      const responseData = verifyToolSuccessResponse<ApplyPlanRefinementResponse>(result);
+      expect(responseData.removedTaskIds).toEqual([removed.id]);
+      expect(responseData.modifiedTaskIds).toEqual([kept.id]);
+      expect(responseData.addedTaskIds).toHaveLength(1);
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = data.projects.find(p => p.projectId === project.projectId)!;
+      expect(projectInFile.projectPlan).toBe("Refined plan");
+      expect(projectInFile.pendingRefinement).toBeUndefined();
+      expect(projectInFile.tasks.map(t => t.title)).toEqual(["Kept (clarified)", "Dependent", "Added"]);
+      expect(projectInFile.tasks.find(t => t.id === dependent.id)!.dependsOn).toEqual([]);
+      expect(projectInFile.history!.map(e => [e.taskId, e.type])).toEqual([
+        [kept.id, "updated"],
+        [removed.id, "deleted"],
+        [responseData.addedTaskIds[0], "created"],
+      ]);
+    });
+
+    it('should move subtasks of a removed task up to its parent', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Nested Project" });
+      const grandparent = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Grandparent" });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Parent",
+        parentId: grandparent.id
+      });
+      const child = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Child",
+        parentId: parent.id
+      });
+      const proposal = await proposeRefinement(project.projectId, {
+        removed: [{ id: parent.id, title: parent.title }]
+      });
+
+      verifyToolSuccessResponse(await applyRefinement(project.projectId, proposal.proposalId));
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = data.projects.find(p => p.projectId === project.projectId)!;
+      expect(projectInFile.tasks.find(t => t.id === child.id)!.parentId).toBe(grandparent.id);
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should refuse a proposal for a task edited since it was made', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Project" });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Original" });
+      const other = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Other" });
+      const proposal = await proposeRefinement(project.projectId, {
+        removed: [{ id: other.id, title: other.title }],
+        modified: [{ id: task.id, changes: { title: { from: "Original", to: "Refined" } } }]
+      });
+      await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId: project.projectId, taskId: task.id, title: "Edited by hand" }
+      });
+
+      const result = await applyRefinement(project.projectId, proposal.proposalId);
+      verifyToolExecutionError(result, new RegExp(`Task ${task.id} changed after plan refinement ${proposal.proposalId} was proposed`));
+
+      // Nothing was applied, and the proposal is kept
+      const data = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = data.projects.find(p => p.projectId === project.projectId)!;
+      expect(projectInFile.tasks.map(t => t.title)).toEqual(["Edited by hand", "Other"]);
+      expect(projectInFile.pendingRefinement?.proposalId).toBe(proposal.proposalId);
+    });
+
+    it('should refuse to remove a task that was approved since the proposal was made', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Project" });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Finished",
+        status: "done",
+        completedDetails: "Done"
+      });
+      const proposal = await proposeRefinement(project.projectId, {
+        removed: [{ id: task.id, title: task.title }]
+      });
+      await context.client.callTool({
+        name: "approve_task",
+        arguments: { projectId: project.projectId, taskId: task.id }
+      });
+
+      const result = await applyRefinement(project.projectId, proposal.proposalId);
+      verifyToolExecutionError(result, new RegExp(`Task ${task.id} changed after plan refinement`));
+    });
+
+    it('should return error for an unknown proposal', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Project" });
+      await proposeRefinement(project.projectId, {});
+
+      const result = await applyRefinement(project.projectId, "proposal-unknown");
+      verifyToolExecutionError(result, new RegExp(`No pending plan refinement proposal-unknown for project ${project.projectId}`));
+    });
+
+    it('should return error for missing proposalId', async () => {
+      try {
+        await context.client.callTool({
+          name: "apply_plan_refinement",
+          arguments: { projectId: "proj-1" }
+        });
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, "Invalid or missing required parameter: proposalId");
+      }
+    });
+  });
+});
@@ -179,6 +179,35 @@ describe('approve_task Tool', () => {
       expect(result.content[0].text).toContain('Tool execution failed: Task not done yet');
     });
 
+    it('should return error when approving a parent before its subtasks', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Subtask Project"
+      });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Parent",
+        status: "done",
+        completedDetails: "Done"
+      });
+      const subtask = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Subtask",
+        parentId: parent.id,
+        status: "done",
+        completedDetails: "Done"
+      });
+
+      const result = await context.client.callTool({
+        name: "approve_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: parent.id
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(`Task ${parent.id} cannot be approved before its subtasks: ${subtask.id}`);
+    });
+
     it('should return error when approving already approved task', async () => {
       const project = await createTestProjectInFile(context.testFilePath, {
         initialPrompt: "Test Project"
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyProtocolError,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  verifyTaskInFile,
+  readTaskManagerFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Task } from "../../../src/types/data.js";
+
+interface ClaimNextTaskResponse {
+  projectId: string;
+  task: Task;
+  message: string;
+}
+
+describe('claim_next_task Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  async function claim(projectId: string, agentId: string, leaseSeconds?: number) {
+    return await context.client.callTool({
+      name: "claim_next_task",
+      arguments: { projectId, agentId, ...(leaseSeconds !== undefined ? { leaseSeconds } : {}) }
+    }) as CallToolResult;
+  }
+
+  describe('Success Cases', () => {
+    it('should assign the next task to the agent with a lease', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Claim Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Claimable Task"
+      });
+
+      const before = Date.now();
+      const responseData = verifyToolSuccessResponse<ClaimNextTaskResponse>(await claim(project.projectId, "agent-a", 60));
+
+      expect(responseData.task).toMatchObject({ id: task.id, assignee: "agent-a", status: "in progress" });
+      const leaseExpiresAt = Date.parse(responseData.task.leaseExpiresAt!);
+      expect(leaseExpiresAt).toBeGreaterThanOrEqual(before + 60_000);
+      expect(leaseExpiresAt).toBeLessThan(before + 70_000);
+      await verifyTaskInFile(context.testFilePath, project.projectId, task.id, { assignee: "agent-a", status: "in progress" });
+    });
+
+    it('should give concurrent agents different tasks', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Concurrent Project"
+      });
+      for (let i = 0; i < 3; i++) {
+        await createTestTaskInFile(context.testFilePath, project.projectId, { title: `Task ${i}` });
+      }
+
+      const results = await Promise.all(["agent-a", "agent-b", "agent-c"].map(agentId => claim(project.projectId, agentId)));
+      const claimedIds = results.map(result => verifyToolSuccessResponse<ClaimNextTaskResponse>(result).task.id);
+
+      expect(new Set(claimedIds).size).toBe(3);
+      const fourth = verifyToolSuccessResponse<{ message: string }>(await claim(project.projectId, "agent-d"));
+      expect(fourth.message).toContain("No tasks");
+    });
+
+    it('should return the task the agent already holds', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Reclaim Project"
+      });
+      const first = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "First" });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Second" });
+
+      await claim(project.projectId, "agent-a");
+      const again = verifyToolSuccessResponse<ClaimNextTaskResponse>(await claim(project.projectId, "agent-a"));
+      expect(again.task.id).toBe(first.id);
+    });
+
+    it('should release expired leases back to not started', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Expired Lease Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Abandoned Task",
+        status: "in progress",
+        assignee: "crashed-agent",
+        leaseExpiresAt: new Date(Date.now() - 1000).toISOString()
+      });
+
+      const responseData = verifyToolSuccessResponse<ClaimNextTaskResponse>(await claim(project.projectId, "agent-b"));
+      expect(responseData.task).toMatchObject({ id: task.id, assignee: "agent-b", status: "in progress" });
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const history = data.projects.find(p => p.projectId === project.projectId)!.history!;
+      expect(history.map(e => e.type)).toEqual(["lease_expired", "status_changed", "claimed", "status_changed"]);
+      expect(history[0].details).toEqual({ assignee: "crashed-agent" });
+    });
+
+    it('should not hand out tasks with a live lease or awaiting approval', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Busy Project"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        status: "done",
+        completedDetails: "Done"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        status: "in progress",
+        assignee: "agent-a",
+        leaseExpiresAt: new Date(Date.now() + 60_000).toISOString()
+      });
+
+      const responseData = verifyToolSuccessResponse<{ message: string }>(await claim(project.projectId, "agent-b"));
+      expect(responseData.message).toContain("No tasks in project");
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return error for missing agentId', async () => {
+      try {
+        await context.client.callTool({
+          name: "claim_next_task",
+          arguments: { projectId: "proj-1" }
+        });
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, "Invalid or missing required parameter: agentId");
+      }
+    });
+
+    it('should return error for invalid leaseSeconds', async () => {
+      try {
+        await claim("proj-1", "agent-a", -5);
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, "Invalid leaseSeconds: must be a positive integer");
+      }
+    });
+
+    it('should return error for a leaseSeconds longer than a day', async () => {
+      try {
+        await claim("proj-1", "agent-a", 1e15);
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, "Invalid leaseSeconds: must be a positive integer of at most 86400");
+      }
+    });
+
+    it('should return error for non-existent project', async () => {
+      verifyToolExecutionError(await claim("non_existent_project", "agent-a"), /Tool execution failed: Project non_existent_project not found/);
+    });
+  });
+});
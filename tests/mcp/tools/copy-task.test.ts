@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  readTaskManagerFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Task } from "../../../src/types/data.js";
+
+interface TransferTaskResponse {
+  sourceProjectId: string;
+  targetProjectId: string;
+  task: Task;
+  message: string;
+}
+
+describe('copy_task Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  async function copyTask(projectId: string, taskId: string, targetProjectId: string) {
+    return await context.client.callTool({
+      name: "copy_task",
+      arguments: { projectId, taskId, targetProjectId }
+    }) as CallToolResult;
+  }
+
+  describe('Success Cases', () => {
+    it('should copy a task under a new ID and leave the original in place', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Reusable Task",
+        description: "Needed in both projects",
+        toolRecommendations: "Use the linter",
+        priority: "high"
+      });
+      await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId: source.projectId, taskId: task.id, title: "Reusable Task (edited)" }
+      });
+
+      const result = await copyTask(source.projectId, task.id, target.projectId);
+
+      const copy = verifyToolSuccessResponse<TransferTaskResponse>(result).task;
+      expect(copy.id).not.toBe(task.id);
+      expect(copy).toMatchObject({
+        title: "Reusable Task (edited)",
+        description: "Needed in both projects",
+        toolRecommendations: "Use the linter",
+        priority: "high"
+      });
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const sourceInFile = data.projects.find(p => p.projectId === source.projectId)!;
+      const targetInFile = data.projects.find(p => p.projectId === target.projectId)!;
+      expect(sourceInFile.tasks.map(t => t.id)).toEqual([task.id]);
+      expect(targetInFile.tasks.map(t => t.id)).toEqual([copy.id]);
+      // The copy's history starts with the original's, under the copy's ID
+      expect(targetInFile.history!.map(e => [e.taskId, e.type])).toEqual([
+        [copy.id, "updated"],
+        [copy.id, "copied"],
+      ]);
+      expect(sourceInFile.history!.at(-1)).toMatchObject({
+        taskId: task.id,
+        type: "copied",
+        details: { toProjectId: target.projectId, toTaskId: copy.id }
+      });
+    });
+
+    it('should not carry the original\'s claim over to the copy', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Claimed Task",
+        status: "in progress",
+        assignee: "agent-a",
+        leaseExpiresAt: new Date(Date.now() + 60_000).toISOString()
+      });
+
+      const result = await copyTask(source.projectId, task.id, target.projectId);
+
+      const copy = verifyToolSuccessResponse<TransferTaskResponse>(result).task;
+      expect(copy.assignee).toBeUndefined();
+      expect(copy.leaseExpiresAt).toBeUndefined();
+    });
+
+    it('should copy a task\'s subtasks under new IDs', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const parent = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Parent" });
+      const child = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Child",
+        parentId: parent.id
+      });
+
+      const result = await copyTask(source.projectId, parent.id, target.projectId);
+      const copy = verifyToolSuccessResponse<TransferTaskResponse>(result).task;
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const targetInFile = data.projects.find(p => p.projectId === target.projectId)!;
+      expect(targetInFile.tasks.map(t => t.title)).toEqual(["Parent", "Child"]);
+      const childCopy = targetInFile.tasks[1];
+      expect(childCopy.id).not.toBe(child.id);
+      expect(childCopy.parentId).toBe(copy.id);
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return error for an approved task', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Approved Task",
+        status: "done",
+        approved: true,
+        completedDetails: "Done"
+      });
+
+      const result = await copyTask(source.projectId, task.id, target.projectId);
+      verifyToolExecutionError(result, /Cannot copy an approved task/);
+    });
+
+    it('should return error when copying into the same project', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Task" });
+
+      try {
+        await copyTask(source.projectId, task.id, source.projectId);
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, `Task ${task.id} is already in project ${source.projectId}`);
+      }
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   setupTestContext,
   teardownTestContext,
   verifyCallToolResult,
+  verifyToolExecutionError,
   verifyProjectInFile,
   verifyTaskInFile,
   readTaskManagerFile,
@@ -181,6 +182,27 @@ describe('create_project Tool', () => {
         ruleRecommendations: "Follow rules A and B"
       });
     });
+
+    it('should resolve task dependencies referenced by title', async () => {
+      const result = await context.client.callTool({
+        name: "create_project",
+        arguments: {
+          initialPrompt: "Project with Dependencies",
+          tasks: [
+            { title: "Design", description: "Design the schema" },
+            { title: "Build", description: "Build the feature", dependsOn: ["Design"] }
+          ]
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const responseData = JSON.parse((result.content[0] as { text: string }).text);
+      const [designTask, buildTask] = responseData.tasks;
+
+      await verifyTaskInFile(context.testFilePath, responseData.projectId, buildTask.id, {
+        dependsOn: [designTask.id]
+      });
+    });
   });
 
   describe('Error Cases', () => {
@@ -216,5 +238,34 @@ describe('create_project Tool', () => {
         expect((error as McpError).message).toContain('Invalid or missing required parameter: description');
       }
     });
+
+    it('should return error for unknown task dependency', async () => {
+      const result = await context.client.callTool({
+        name: "create_project",
+        arguments: {
+          initialPrompt: "Unknown Dependency Project",
+          tasks: [
+            { title: "Task 1", description: "First task", dependsOn: ["Missing Task"] }
+          ]
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Task "Task 1" depends on unknown task Missing Task/);
+    });
+
+    it('should return error for cyclic task dependencies', async () => {
+      const result = await context.client.callTool({
+        name: "create_project",
+        arguments: {
+          initialPrompt: "Cyclic Project",
+          tasks: [
+            { title: "Task A", description: "First task", dependsOn: ["Task B"] },
+            { title: "Task B", description: "Second task", dependsOn: ["Task A"] }
+          ]
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Task dependencies would form a cycle/);
+    });
   });
 }); 
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { setupTestContext, teardownTestContext, TestContext, createTestProject, verifyCallToolResult, verifyTaskInFile, verifyToolExecutionError, verifyProtocolError } from '../test-helpers.js';
+import { setupTestContext, teardownTestContext, TestContext, createTestProject, verifyCallToolResult, verifyTaskInFile, verifyToolExecutionError, verifyProtocolError, getFirstTaskId, readTaskManagerFile } from '../test-helpers.js';
 import { CallToolResult, McpError } from '@modelcontextprotocol/sdk/types.js';
 
 describe('create_task Tool', () => {
@@ -70,6 +70,27 @@ describe('create_task Tool', () => {
       });
     });
 
+    it('should create a task with a priority', async () => {
+      const result = await context.client.callTool({
+        name: "create_task",
+        arguments: {
+          projectId,
+          title: "Urgent Task",
+          description: "Task that must be done first",
+          priority: "critical"
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const responseData = JSON.parse((result.content[0] as { text: string }).text);
+      const newTask = responseData.newTasks[0];
+
+      await verifyTaskInFile(context.testFilePath, projectId, newTask.id, {
+        title: "Urgent Task",
+        priority: "critical"
+      });
+    });
+
     it('should create multiple tasks in sequence', async () => {
       const tasks = [
         { title: "First Task", description: "Task 1 description" },
@@ -102,6 +123,33 @@ describe('create_task Tool', () => {
         });
       }
     });
+
+    it('should create a subtask right after its parent', async () => {
+      const parentId = await getFirstTaskId(context.client, projectId);
+      await context.client.callTool({
+        name: "create_task",
+        arguments: { projectId, title: "Later Task", description: "Top-level task" }
+      });
+
+      const result = await context.client.callTool({
+        name: "create_task",
+        arguments: {
+          projectId,
+          title: "Subtask",
+          description: "Part of Task 1",
+          parentId
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const responseData = JSON.parse((result.content[0] as { text: string }).text);
+      const subtaskId = responseData.newTasks[0].id;
+      await verifyTaskInFile(context.testFilePath, projectId, subtaskId, { parentId });
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const project = data.projects.find(p => p.projectId === projectId)!;
+      expect(project.tasks.map(t => t.title)).toEqual(["Task 1", "Subtask", "Later Task"]);
+    });
   });
 
   describe('Error Cases', () => {
@@ -164,5 +212,19 @@ describe('create_task Tool', () => {
         verifyProtocolError(error, -32602, 'Invalid or missing required parameter: description');
       }
     });
+
+    it('should return error for an unknown parent task', async () => {
+      const result = await context.client.callTool({
+        name: "create_task",
+        arguments: {
+          projectId,
+          title: "Orphan",
+          description: "Subtask of nothing",
+          parentId: "task-9999"
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Task "Orphan" has unknown parent task task-9999/);
+    });
   });
 }); 
\ No newline at end of file
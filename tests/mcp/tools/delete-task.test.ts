@@ -6,6 +6,7 @@ import {
   verifyToolSuccessResponse,
   createTestProjectInFile,
   createTestTaskInFile,
+  readTaskManagerFile,
   TestContext
 } from '../test-helpers.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
@@ -55,6 +56,68 @@ describe('delete_task Tool', () => {
 
       verifyToolExecutionError(readResult, /Tool execution failed: Task .* not found/);
     });
+
+    it('should delete a task together with its subtasks', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Parent" });
+      const child = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Child",
+        parentId: parent.id
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Grandchild",
+        parentId: child.id
+      });
+      const sibling = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Sibling" });
+
+      const result = await context.client.callTool({
+        name: "delete_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: parent.id
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<{ message: string }>(result);
+      expect(responseData.message).toContain(`Task ${parent.id} and 2 subtask(s) deleted`);
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = data.projects.find(p => p.projectId === project.projectId)!;
+      expect(projectInFile.tasks.map(t => t.id)).toEqual([sibling.id]);
+    });
+
+    it('should not reuse the ID of a deleted task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Kept" });
+      const deleted = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Deleted" });
+      await context.client.callTool({
+        name: "delete_task",
+        arguments: { projectId: project.projectId, taskId: deleted.id }
+      });
+
+      const result = await context.client.callTool({
+        name: "create_task",
+        arguments: { projectId: project.projectId, title: "New", description: "Added after the deletion" }
+      }) as CallToolResult;
+      const task = verifyToolSuccessResponse<{ newTasks: Array<{ id: string }> }>(result).newTasks[0];
+      expect(task.id).not.toBe(deleted.id);
+
+      // The deleted task keeps its own history, and the new task starts a fresh one
+      const history = verifyToolSuccessResponse<{ events: Array<{ type: string }> }>(await context.client.callTool({
+        name: "read_task_history",
+        arguments: { projectId: project.projectId, taskId: task.id }
+      }) as CallToolResult);
+      expect(history.events.map(e => e.type)).toEqual(["created"]);
+      const deletedHistory = verifyToolSuccessResponse<{ events: Array<{ type: string }> }>(await context.client.callTool({
+        name: "read_task_history",
+        arguments: { projectId: project.projectId, taskId: deleted.id }
+      }) as CallToolResult);
+      expect(deletedHistory.events.map(e => e.type)).toEqual(["deleted"]);
+    });
   });
 
   describe('Error Cases', () => {
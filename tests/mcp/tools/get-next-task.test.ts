@@ -7,6 +7,7 @@ import {
   createTestProjectInFile,
   createTestTaskInFile,
   readTaskManagerFile,
+  writeTaskManagerFile,
   TestContext
 } from '../test-helpers.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
@@ -176,6 +177,203 @@ describe('get_next_task Tool', () => {
 
       verifyToolExecutionError(result, /Tool execution failed: Project is already completed/);
     });
+
+    it('should skip tasks whose dependencies are not done and approved', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Project with Dependencies"
+      });
+
+      const prerequisite = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Prerequisite",
+        status: "done",
+        approved: false,
+        completedDetails: "Awaiting approval"
+      });
+      const dependent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Dependent",
+        dependsOn: [prerequisite.id]
+      });
+      const independent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Independent"
+      });
+
+      // Move the blocked task to the front of the queue
+      const fileData = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = fileData.projects.find(p => p.projectId === project.projectId)!;
+      projectInFile.tasks = [dependent, prerequisite, independent];
+      await writeTaskManagerFile(context.testFilePath, fileData);
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse>(result);
+      expect(responseData.task.id).toBe(prerequisite.id);
+    });
+
+    it('should return a done task awaiting approval without instructions', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Project Awaiting Approval"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Finished Task",
+        status: "done",
+        approved: false,
+        completedDetails: "Done"
+      });
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse & { message?: string }>(result);
+      expect(responseData.task.id).toBe(task.id);
+      expect(responseData.message).toBeUndefined();
+    });
+
+    it('should follow the project\'s priority ordering policy', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Prioritized Project",
+        orderingPolicy: "priority"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Low Priority",
+        priority: "low"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Default Priority"
+      });
+      const urgent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Critical Priority",
+        priority: "critical"
+      });
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse>(result);
+      expect(responseData.task.id).toBe(urgent.id);
+    });
+
+    it('should ignore priorities in projects using the default sequence ordering', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Sequential Project"
+      });
+      const first = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "First",
+        priority: "low"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Second",
+        priority: "critical"
+      });
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse>(result);
+      expect(responseData.task.id).toBe(first.id);
+    });
+
+    it('should pick the oldest task first when the project orders by creation time', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Oldest First Project",
+        orderingPolicy: "oldest_first"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Newer",
+        createdAt: "2025-02-01T00:00:00.000Z"
+      });
+      const older = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Older",
+        createdAt: "2025-01-01T00:00:00.000Z"
+      });
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse>(result);
+      expect(responseData.task.id).toBe(older.id);
+    });
+
+    it('should descend into the deepest open subtask', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Nested Project"
+      });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Parent"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Finished Subtask",
+        parentId: parent.id,
+        status: "done",
+        approved: true,
+        completedDetails: "Done"
+      });
+      const child = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Open Subtask",
+        parentId: parent.id
+      });
+      const grandchild = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Nested Subtask",
+        parentId: child.id
+      });
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse>(result);
+      expect(responseData.task.id).toBe(grandchild.id);
+    });
+
+    it('should return the parent once all its subtasks are approved', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Nested Project"
+      });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Parent",
+        status: "in progress"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Subtask",
+        parentId: parent.id,
+        status: "done",
+        approved: true,
+        completedDetails: "Done"
+      });
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<GetNextTaskResponse>(result);
+      expect(responseData.task.id).toBe(parent.id);
+    });
   });
 
   describe('Error Cases', () => {
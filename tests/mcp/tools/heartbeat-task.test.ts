@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+interface HeartbeatTaskResponse {
+  projectId: string;
+  taskId: string;
+  assignee: string;
+  leaseExpiresAt: string;
+}
+
+describe('heartbeat_task Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  async function heartbeat(projectId: string, taskId: string, agentId: string, leaseSeconds?: number) {
+    return await context.client.callTool({
+      name: "heartbeat_task",
+      arguments: { projectId, taskId, agentId, ...(leaseSeconds !== undefined ? { leaseSeconds } : {}) }
+    }) as CallToolResult;
+  }
+
+  describe('Success Cases', () => {
+    it('should extend the lease of the assignee', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Heartbeat Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        status: "in progress",
+        assignee: "agent-a",
+        leaseExpiresAt: new Date(Date.now() + 10_000).toISOString()
+      });
+
+      const responseData = verifyToolSuccessResponse<HeartbeatTaskResponse>(
+        await heartbeat(project.projectId, task.id, "agent-a", 600)
+      );
+      expect(responseData).toMatchObject({ projectId: project.projectId, taskId: task.id, assignee: "agent-a" });
+      expect(Date.parse(responseData.leaseExpiresAt)).toBeGreaterThan(Date.now() + 590_000);
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should reject heartbeats from another agent', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Other Agent Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        status: "in progress",
+        assignee: "agent-a",
+        leaseExpiresAt: new Date(Date.now() + 60_000).toISOString()
+      });
+
+      verifyToolExecutionError(
+        await heartbeat(project.projectId, task.id, "agent-b"),
+        new RegExp(`Tool execution failed: Task ${task.id} is not claimed by agent-b`)
+      );
+    });
+
+    it('should reject heartbeats after the lease expired', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Expired Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        status: "in progress",
+        assignee: "agent-a",
+        leaseExpiresAt: new Date(Date.now() - 1000).toISOString()
+      });
+
+      verifyToolExecutionError(
+        await heartbeat(project.projectId, task.id, "agent-a"),
+        /Tool execution failed: The lease of agent-a on task .* has expired/
+      );
+    });
+
+    it('should return error for non-existent task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Missing Task Project"
+      });
+
+      verifyToolExecutionError(
+        await heartbeat(project.projectId, "task-999", "agent-a"),
+        /Tool execution failed: Task task-999 not found/
+      );
+    });
+
+    it('should return error for a leaseSeconds longer than a day', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Long Lease Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        status: "in progress",
+        assignee: "agent-a",
+        leaseExpiresAt: new Date(Date.now() + 60_000).toISOString()
+      });
+
+      try {
+        await heartbeat(project.projectId, task.id, "agent-a", 1e15);
+        fail('Expected McpError to be thrown');
+      } catch (error: any) {
+        verifyProtocolError(error, -32602, "Invalid leaseSeconds: must be a positive integer of at most 86400");
+      }
+    });
+  });
+});
@@ -4,6 +4,7 @@ import {
   teardownTestContext,
   verifyCallToolResult,
   verifyToolExecutionError,
+  verifyProtocolError,
   createTestProject,
   getFirstTaskId,
   TestContext
@@ -52,6 +53,8 @@ describe('list_projects Tool', () => {
       expect(testProject).toHaveProperty('totalTasks');
       expect(testProject).toHaveProperty('completedTasks');
       expect(testProject).toHaveProperty('approvedTasks');
+      expect(typeof testProject.createdAt).toBe('string');
+      expect(typeof testProject.updatedAt).toBe('string');
     });
 
     it('should filter projects by state', async () => {
@@ -69,6 +72,14 @@ describe('list_projects Tool', () => {
 
       // Complete the second project's task
       const taskId = await getFirstTaskId(context.client, completedProjectId);
+      await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: completedProjectId,
+          taskId,
+          status: "in progress"
+        }
+      });
       await context.client.callTool({
         name: "update_task",
         arguments: {
@@ -118,6 +129,20 @@ describe('list_projects Tool', () => {
       const completedProjects = completedData.projects;
       expect(completedProjects.some((p: any) => p.projectId === completedProjectId)).toBe(true);
       expect(completedProjects.some((p: any) => p.projectId === openProjectId)).toBe(false);
+      expect(typeof completedProjects.find((p: any) => p.projectId === completedProjectId).completedAt).toBe('string');
+    });
+
+    it('should sort projects by a timestamp', async () => {
+      const result = await context.client.callTool({
+        name: "list_projects",
+        arguments: { sortBy: "createdAt", sortOrder: "desc" }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const data = JSON.parse((result.content[0] as { text: string }).text);
+      const createdTimes = data.projects.map((p: any) => Date.parse(p.createdAt));
+      expect(createdTimes.length).toBeGreaterThan(1);
+      expect(createdTimes).toEqual([...createdTimes].sort((a, b) => b - a));
     });
   });
 
@@ -141,6 +166,18 @@ describe('list_projects Tool', () => {
 
         verifyToolExecutionError(result, /Invalid state parameter. Must be one of: open, pending_approval, completed, all/);
       });
+
+      it('should handle invalid sortOrder parameter', async () => {
+        try {
+          await context.client.callTool({
+            name: "list_projects",
+            arguments: { sortBy: "createdAt", sortOrder: "sideways" }
+          });
+          fail('Expected error was not thrown');
+        } catch (error) {
+          verifyProtocolError(error, -32602, "Invalid sortOrder parameter. Must be one of: asc, desc");
+        }
+      });
     });
 
     describe('File System Errors', () => {
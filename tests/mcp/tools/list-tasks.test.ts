@@ -4,7 +4,10 @@ import {
   teardownTestContext,
   verifyCallToolResult,
   verifyToolExecutionError,
+  verifyProtocolError,
   createTestProject,
+  createTestProjectInFile,
+  createTestTaskInFile,
   getFirstTaskId,
   TestContext
 } from '../test-helpers.js';
@@ -119,6 +122,14 @@ describe('list_tasks Tool', () => {
       // Set up task states:
       // 1. Leave first task as is (not started)
       // 2. Mark second task as done (but not approved)
+      await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId,
+          taskId: doneNotApprovedTaskId,
+          status: "in progress"
+        }
+      });
       await context.client.callTool({
         name: "update_task",
         arguments: {
@@ -130,6 +141,14 @@ describe('list_tasks Tool', () => {
       });
 
       // 3. Mark third task as done and approved
+      await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId,
+          taskId: completedTaskId,
+          status: "in progress"
+        }
+      });
       await context.client.callTool({
         name: "update_task",
         arguments: {
@@ -231,6 +250,14 @@ describe('list_tasks Tool', () => {
         .tasks.map((t: any) => t.id);
 
       // Complete and approve one task in each project
+      await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project1Id,
+          taskId: p1CompletedTaskId,
+          status: "in progress"
+        }
+      });
       await context.client.callTool({
         name: "update_task",
         arguments: {
@@ -249,6 +276,14 @@ describe('list_tasks Tool', () => {
         }
       });
 
+      await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project2Id,
+          taskId: p2CompletedTaskId,
+          status: "in progress"
+        }
+      });
       await context.client.callTool({
         name: "update_task",
         arguments: {
@@ -281,6 +316,105 @@ describe('list_tasks Tool', () => {
       expect(data.tasks.length).toBe(1);
       expect(data.tasks[0].title).toBe("P1 Not Started Task");
     });
+    it('should include timestamps on newly created tasks', async () => {
+      const projectId = await createTestProject(context.client, {
+        initialPrompt: "Timestamped Project",
+        tasks: [{ title: "Timestamped Task", description: "Has timestamps" }]
+      });
+
+      const result = await context.client.callTool({
+        name: "list_tasks",
+        arguments: { projectId }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const data = JSON.parse((result.content[0] as { text: string }).text);
+      expect(typeof data.tasks[0].createdAt).toBe('string');
+      expect(data.tasks[0].updatedAt).toBe(data.tasks[0].createdAt);
+      expect(data.tasks[0].startedAt).toBeUndefined();
+    });
+
+    it('should sort tasks by a timestamp', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Sorted Project"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Middle",
+        createdAt: "2024-01-02T00:00:00.000Z"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Undated"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Oldest",
+        createdAt: "2024-01-01T00:00:00.000Z"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Newest",
+        createdAt: "2024-01-03T00:00:00.000Z"
+      });
+
+      const ascResult = await context.client.callTool({
+        name: "list_tasks",
+        arguments: { projectId: project.projectId, sortBy: "createdAt" }
+      }) as CallToolResult;
+      verifyCallToolResult(ascResult);
+      const ascData = JSON.parse((ascResult.content[0] as { text: string }).text);
+      expect(ascData.tasks.map((t: any) => t.title)).toEqual(["Oldest", "Middle", "Newest", "Undated"]);
+
+      const descResult = await context.client.callTool({
+        name: "list_tasks",
+        arguments: { projectId: project.projectId, sortBy: "createdAt", sortOrder: "desc" }
+      }) as CallToolResult;
+      verifyCallToolResult(descResult);
+      const descData = JSON.parse((descResult.content[0] as { text: string }).text);
+      expect(descData.tasks.map((t: any) => t.title)).toEqual(["Newest", "Middle", "Oldest", "Undated"]);
+    });
+
+    it('should filter tasks by assignee', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Assigned Project"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Agent A Task",
+        status: "in progress",
+        assignee: "agent-a"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Agent B Task",
+        status: "in progress",
+        assignee: "agent-b"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Unassigned Task"
+      });
+
+      const result = await context.client.callTool({
+        name: "list_tasks",
+        arguments: { projectId: project.projectId, assignee: "agent-a" }
+      }) as CallToolResult;
+      verifyCallToolResult(result);
+      const data = JSON.parse((result.content[0] as { text: string }).text);
+      expect(data.tasks.map((t: any) => t.title)).toEqual(["Agent A Task"]);
+    });
+
+    it('should list tasks in the project\'s ordering policy', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Prioritized Project",
+        orderingPolicy: "priority"
+      });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Normal" });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Low", priority: "low" });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { title: "High", priority: "high" });
+
+      const result = await context.client.callTool({
+        name: "list_tasks",
+        arguments: { projectId: project.projectId }
+      }) as CallToolResult;
+      verifyCallToolResult(result);
+      const data = JSON.parse((result.content[0] as { text: string }).text);
+      expect(data.tasks.map((t: any) => t.title)).toEqual(["High", "Normal", "Low"]);
+    });
   });
 
   describe('Error Cases', () => {
@@ -304,6 +438,18 @@ describe('list_tasks Tool', () => {
         verifyToolExecutionError(result, /Invalid state parameter. Must be one of: open, pending_approval, completed, all/);
       });
 
+      it('should handle invalid sortBy parameter', async () => {
+        try {
+          await context.client.callTool({
+            name: "list_tasks",
+            arguments: { sortBy: "title" }
+          });
+          fail('Expected error was not thrown');
+        } catch (error) {
+          verifyProtocolError(error, -32602, "Invalid sortBy parameter. Must be one of: createdAt, updatedAt, startedAt, completedAt, approvedAt");
+        }
+      });
+
       it('should handle invalid project ID', async () => {
         const result = await context.client.callTool({
           name: "list_tasks",
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  readTaskManagerFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Task } from "../../../src/types/data.js";
+
+interface TransferTaskResponse {
+  sourceProjectId: string;
+  targetProjectId: string;
+  task: Task;
+  message: string;
+}
+
+describe('move_task Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  async function moveTask(projectId: string, taskId: string, targetProjectId: string) {
+    return await context.client.callTool({
+      name: "move_task",
+      arguments: { projectId, taskId, targetProjectId }
+    }) as CallToolResult;
+  }
+
+  describe('Success Cases', () => {
+    it('should move a task with its details and history', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Misplaced Task",
+        description: "Belongs in the target project"
+      });
+      await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId: source.projectId, taskId: task.id, status: "in progress" }
+      });
+
+      const result = await moveTask(source.projectId, task.id, target.projectId);
+
+      const responseData = verifyToolSuccessResponse<TransferTaskResponse>(result);
+      expect(responseData.task).toMatchObject({ id: task.id, title: "Misplaced Task", status: "in progress" });
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const sourceInFile = data.projects.find(p => p.projectId === source.projectId)!;
+      const targetInFile = data.projects.find(p => p.projectId === target.projectId)!;
+      expect(sourceInFile.tasks.some(t => t.id === task.id)).toBe(false);
+      expect(targetInFile.tasks.map(t => t.id)).toEqual([task.id]);
+      expect(targetInFile.history!.map(e => e.type)).toEqual(["status_changed", "moved"]);
+      expect(sourceInFile.history!.at(-1)).toMatchObject({
+        taskId: task.id,
+        type: "moved",
+        details: { fromProjectId: source.projectId, toProjectId: target.projectId }
+      });
+    });
+
+    it('should not duplicate history when a task moves back', async () => {
+      const first = await createTestProjectInFile(context.testFilePath, { initialPrompt: "First" });
+      const second = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Second" });
+      const task = await createTestTaskInFile(context.testFilePath, first.projectId, { title: "Wandering Task" });
+      await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId: first.projectId, taskId: task.id, status: "in progress" }
+      });
+
+      verifyToolSuccessResponse<TransferTaskResponse>(await moveTask(first.projectId, task.id, second.projectId));
+      verifyToolSuccessResponse<TransferTaskResponse>(await moveTask(second.projectId, task.id, first.projectId));
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const firstInFile = data.projects.find(p => p.projectId === first.projectId)!;
+      expect(firstInFile.tasks.map(t => t.id)).toEqual([task.id]);
+      expect(firstInFile.history!.map(e => [e.type, e.details?.toProjectId])).toEqual([
+        ["status_changed", undefined],
+        ["moved", second.projectId],
+        ["moved", first.projectId],
+      ]);
+    });
+
+    it('should drop dependencies between the task and its old project', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const prerequisite = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Prerequisite" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Moved",
+        dependsOn: [prerequisite.id]
+      });
+      const dependent = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Dependent",
+        dependsOn: [task.id]
+      });
+
+      const result = await moveTask(source.projectId, task.id, target.projectId);
+      expect(verifyToolSuccessResponse<TransferTaskResponse>(result).task.dependsOn).toBeUndefined();
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const sourceInFile = data.projects.find(p => p.projectId === source.projectId)!;
+      expect(sourceInFile.tasks.find(t => t.id === dependent.id)!.dependsOn).toEqual([]);
+    });
+
+    it('should move a task together with its subtasks', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const grandparent = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Grandparent" });
+      const parent = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Parent",
+        parentId: grandparent.id
+      });
+      const child = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Child",
+        parentId: parent.id
+      });
+
+      const result = await moveTask(source.projectId, parent.id, target.projectId);
+      expect(verifyToolSuccessResponse<TransferTaskResponse>(result).task.parentId).toBeUndefined();
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const sourceInFile = data.projects.find(p => p.projectId === source.projectId)!;
+      const targetInFile = data.projects.find(p => p.projectId === target.projectId)!;
+      expect(sourceInFile.tasks.map(t => t.id)).toEqual([grandparent.id]);
+      expect(targetInFile.tasks.map(t => [t.id, t.parentId])).toEqual([
+        [parent.id, undefined],
+        [child.id, parent.id],
+      ]);
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return error for an approved task', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, {
+        title: "Approved Task",
+        status: "done",
+        approved: true,
+        completedDetails: "Done"
+      });
+
+      const result = await moveTask(source.projectId, task.id, target.projectId);
+      verifyToolExecutionError(result, /Cannot move an approved task/);
+    });
+
+    it('should return error when the target project is completed', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target", completed: true });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Task" });
+
+      const result = await moveTask(source.projectId, task.id, target.projectId);
+      verifyToolExecutionError(result, new RegExp(`Project ${target.projectId} is already completed`));
+    });
+
+    it('should return error when the source project is completed', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source", completed: true });
+      const target = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Target" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Task" });
+
+      const result = await moveTask(source.projectId, task.id, target.projectId);
+      verifyToolExecutionError(result, /Project is already completed/);
+    });
+
+    it('should return error for a non-existent target project', async () => {
+      const source = await createTestProjectInFile(context.testFilePath, { initialPrompt: "Source" });
+      const task = await createTestTaskInFile(context.testFilePath, source.projectId, { title: "Task" });
+
+      const result = await moveTask(source.projectId, task.id, "proj-does-not-exist");
+      verifyToolExecutionError(result, /Project proj-does-not-exist not found/);
+    });
+  });
+});
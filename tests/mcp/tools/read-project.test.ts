@@ -179,6 +179,33 @@ describe('read_project Tool', () => {
         "done"
       ]);
     });
+
+    it('should report blocked tasks and their blockers', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Project with Dependencies"
+      });
+      const prerequisite = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Prerequisite",
+        status: "in progress"
+      });
+      const dependent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Dependent",
+        dependsOn: [prerequisite.id]
+      });
+
+      const result = await context.client.callTool({
+        name: "read_project",
+        arguments: {
+          projectId: project.projectId
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      const responseData = JSON.parse((result.content[0] as { text: string }).text);
+      expect(responseData.blockedTasks).toEqual([
+        { taskId: dependent.id, blockedBy: [prerequisite.id] }
+      ]);
+    });
   });
 
   describe('Error Cases', () => {
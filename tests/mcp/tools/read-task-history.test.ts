@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  createTestProject,
+  getFirstTaskId,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { TaskHistoryEvent } from "../../../src/types/data.js";
+
+interface TaskHistoryResponse {
+  projectId: string;
+  taskId?: string;
+  events: TaskHistoryEvent[];
+}
+
+describe('read_task_history Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  describe('Success Cases', () => {
+    it('should record the lifecycle of a task', async () => {
+      const projectId = await createTestProject(context.client);
+      const taskId = await getFirstTaskId(context.client, projectId);
+
+      await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId, taskId, status: "in progress", title: "Renamed Task" }
+      });
+      await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId, taskId, status: "done", completedDetails: "Finished" }
+      });
+      await context.client.callTool({
+        name: "reject_task",
+        arguments: { projectId, taskId, reason: "Needs polish" }
+      });
+
+      const result = await context.client.callTool({
+        name: "read_task_history",
+        arguments: { projectId, taskId }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<TaskHistoryResponse>(result);
+      expect(responseData.events.map(e => e.type)).toEqual([
+        "created",
+        "updated",
+        "status_changed",
+        "updated",
+        "status_changed",
+        "rejected"
+      ]);
+      expect(responseData.events[1].details).toEqual({
+        changes: { title: { from: "Task 1", to: "Renamed Task" } }
+      });
+      expect(responseData.events[2].details).toEqual({ from: "not started", to: "in progress" });
+      expect(responseData.events[5].details).toMatchObject({ reason: "Needs polish" });
+      for (const event of responseData.events) {
+        expect(event.taskId).toBe(taskId);
+        expect(event.actor).toBe("agent");
+        expect(Number.isNaN(Date.parse(event.timestamp))).toBe(false);
+      }
+    });
+
+    it('should keep the history of deleted tasks', async () => {
+      const projectId = await createTestProject(context.client, {
+        tasks: [
+          { title: "Keep", description: "Stays in the project" },
+          { title: "Remove", description: "Will be deleted" }
+        ]
+      });
+      const project = verifyToolSuccessResponse<{ tasks: Array<{ id: string }> }>(
+        await context.client.callTool({ name: "read_project", arguments: { projectId } }) as CallToolResult
+      );
+      const deletedTaskId = project.tasks[1].id;
+
+      await context.client.callTool({
+        name: "delete_task",
+        arguments: { projectId, taskId: deletedTaskId }
+      });
+
+      const result = await context.client.callTool({
+        name: "read_task_history",
+        arguments: { projectId }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<TaskHistoryResponse>(result);
+      expect(responseData.events.map(e => [e.taskId, e.type])).toEqual([
+        [project.tasks[0].id, "created"],
+        [deletedTaskId, "created"],
+        [deletedTaskId, "deleted"]
+      ]);
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return error for non-existent project', async () => {
+      const result = await context.client.callTool({
+        name: "read_task_history",
+        arguments: { projectId: "non_existent_project" }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Project non_existent_project not found/);
+    });
+
+    it('should return error for non-existent task', async () => {
+      const projectId = await createTestProject(context.client);
+
+      const result = await context.client.callTool({
+        name: "read_task_history",
+        arguments: { projectId, taskId: "non_existent_task" }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Task non_existent_task not found/);
+    });
+  });
+});
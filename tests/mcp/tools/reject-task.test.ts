@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  verifyTaskInFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Task } from "../../../src/types/data.js";
+
+describe('reject_task Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  describe('Success Cases', () => {
+    it('should move a done task back to in progress with feedback', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "done",
+        completedDetails: "Task completed in test"
+      });
+
+      const result = await context.client.callTool({
+        name: "reject_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          reason: "Missing unit tests"
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<{ task: Partial<Task> }>(result);
+      expect(responseData.task).toMatchObject({
+        id: task.id,
+        status: "in progress",
+        reviewFeedback: "Missing unit tests"
+      });
+
+      await verifyTaskInFile(context.testFilePath, project.projectId, task.id, {
+        status: "in progress",
+        approved: false,
+        reviewFeedback: "Missing unit tests"
+      });
+    });
+
+    it('should show reviewer feedback in get_next_task and read_task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "done",
+        completedDetails: "Task completed in test"
+      });
+
+      await context.client.callTool({
+        name: "reject_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          reason: "Handle the empty input case"
+        }
+      });
+
+      const nextTaskResult = await context.client.callTool({
+        name: "get_next_task",
+        arguments: { projectId: project.projectId }
+      }) as CallToolResult;
+
+      const nextTask = verifyToolSuccessResponse<{ task: Task; message: string }>(nextTaskResult);
+      expect(nextTask.task.reviewFeedback).toBe("Handle the empty input case");
+      expect(nextTask.message).toContain("Handle the empty input case");
+
+      const readTaskResult = await context.client.callTool({
+        name: "read_task",
+        arguments: { projectId: project.projectId, taskId: task.id }
+      }) as CallToolResult;
+
+      const readTask = verifyToolSuccessResponse<{ task: Task }>(readTaskResult);
+      expect(readTask.task.reviewFeedback).toBe("Handle the empty input case");
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return error when task is not done', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "in progress"
+      });
+
+      const result = await context.client.callTool({
+        name: "reject_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          reason: "Not good enough"
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Task not done yet/);
+    });
+
+    it('should return error when task is already approved', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "done",
+        approved: true,
+        completedDetails: "Approved already"
+      });
+
+      const result = await context.client.callTool({
+        name: "reject_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          reason: "Changed my mind"
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Cannot reject an approved task/);
+    });
+
+    it('should return error when reason is missing', async () => {
+      try {
+        await context.client.callTool({
+          name: "reject_task",
+          arguments: {
+            projectId: "proj-1",
+            taskId: "task-1"
+          }
+        });
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, "Invalid or missing required parameter: reason (Expected string)");
+      }
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  verifyProtocolError,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  readTaskManagerFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+interface ReorderTasksResponse {
+  projectId: string;
+  taskIds: string[];
+  message: string;
+}
+
+describe('reorder_tasks Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  async function reorder(projectId: string, taskIds: string[]) {
+    return await context.client.callTool({
+      name: "reorder_tasks",
+      arguments: { projectId, taskIds }
+    }) as CallToolResult;
+  }
+
+  describe('Success Cases', () => {
+    it('should reorder tasks and keep their IDs', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Reorder Project"
+      });
+      const first = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "First" });
+      const second = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Second" });
+      const third = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Third" });
+
+      const result = await reorder(project.projectId, [third.id, first.id, second.id]);
+
+      const responseData = verifyToolSuccessResponse<ReorderTasksResponse>(result);
+      expect(responseData.taskIds).toEqual([third.id, first.id, second.id]);
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = data.projects.find(p => p.projectId === project.projectId)!;
+      expect(projectInFile.tasks.map(t => t.title)).toEqual(["Third", "First", "Second"]);
+
+      // Only the task that moved is recorded, not the ones that shifted along
+      const reordered = projectInFile.history!.filter(e => e.type === "reordered");
+      expect(reordered).toHaveLength(1);
+      expect(reordered[0]).toMatchObject({ taskId: third.id, details: { from: 3, to: 1 } });
+    });
+
+    it('should change the task returned by get_next_task', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Next Task Project"
+      });
+      const first = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "First" });
+      const second = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Second" });
+
+      verifyToolSuccessResponse(await reorder(project.projectId, [second.id, first.id]));
+
+      const result = await context.client.callTool({
+        name: "get_next_task",
+        arguments: { projectId: project.projectId }
+      }) as CallToolResult;
+      expect(verifyToolSuccessResponse<{ task: { id: string } }>(result).task.id).toBe(second.id);
+    });
+
+    it('should allow moving a task after the tasks it depends on', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Dependency Project"
+      });
+      const prerequisite = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Prerequisite" });
+      const dependent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Dependent",
+        dependsOn: [prerequisite.id]
+      });
+      const other = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Other" });
+
+      const result = await reorder(project.projectId, [prerequisite.id, other.id, dependent.id]);
+      expect(verifyToolSuccessResponse<ReorderTasksResponse>(result).taskIds).toEqual([prerequisite.id, other.id, dependent.id]);
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should reject moving a task ahead of a task it depends on', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Dependency Project"
+      });
+      const prerequisite = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Prerequisite" });
+      const dependent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Dependent",
+        dependsOn: [prerequisite.id]
+      });
+
+      const result = await reorder(project.projectId, [dependent.id, prerequisite.id]);
+      verifyToolExecutionError(result, new RegExp(`Cannot move task ${dependent.id} ahead of task ${prerequisite.id}, which it depends on`));
+
+      const data = await readTaskManagerFile(context.testFilePath);
+      const projectInFile = data.projects.find(p => p.projectId === project.projectId)!;
+      expect(projectInFile.tasks.map(t => t.id)).toEqual([prerequisite.id, dependent.id]);
+    });
+
+    it('should return error when not every task is listed exactly once', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Incomplete Order Project"
+      });
+      const first = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "First" });
+      await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Second" });
+
+      try {
+        await reorder(project.projectId, [first.id, first.id]);
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, `taskIds must list each of the 2 tasks in project ${project.projectId} exactly once`);
+      }
+    });
+
+    it('should return error for tasks from another project', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, { title: "Task" });
+
+      const result = await reorder(project.projectId, [task.id, "task-9999"]);
+      verifyToolExecutionError(result, /Tasks not found in project .*: task-9999/);
+    });
+
+    it('should return error for missing taskIds', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Project"
+      });
+
+      try {
+        await context.client.callTool({
+          name: "reorder_tasks",
+          arguments: { projectId: project.projectId }
+        });
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, "Invalid or missing required parameter: taskIds");
+      }
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  setupTestContext,
+  teardownTestContext,
+  verifyToolExecutionError,
+  verifyToolSuccessResponse,
+  verifyProtocolError,
+  verifyProjectInFile,
+  verifyTaskInFile,
+  createTestProjectInFile,
+  createTestTaskInFile,
+  TestContext
+} from '../test-helpers.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+describe('update_project Tool', () => {
+  let context: TestContext;
+
+  beforeAll(async () => {
+    context = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await teardownTestContext(context);
+  });
+
+  describe('Success Cases', () => {
+    it('should enable auto-approval', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project",
+        autoApprove: false
+      });
+
+      const result = await context.client.callTool({
+        name: "update_project",
+        arguments: {
+          projectId: project.projectId,
+          autoApprove: true
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<{ autoApprove: boolean }>(result);
+      expect(responseData.autoApprove).toBe(true);
+
+      await verifyProjectInFile(context.testFilePath, project.projectId, {
+        autoApprove: true
+      });
+    });
+
+    it('should approve tasks awaiting approval when auto-approval is enabled', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Pending Task",
+        status: "done",
+        approved: false,
+        completedDetails: "Finished"
+      });
+
+      const result = await context.client.callTool({
+        name: "update_project",
+        arguments: {
+          projectId: project.projectId,
+          autoApprove: true
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<{ message: string }>(result);
+      expect(responseData.message).toContain("1 task(s) awaiting approval were approved");
+
+      await verifyTaskInFile(context.testFilePath, project.projectId, task.id, {
+        approved: true
+      });
+    });
+
+    it('should disable auto-approval', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project",
+        autoApprove: true
+      });
+
+      const result = await context.client.callTool({
+        name: "update_project",
+        arguments: {
+          projectId: project.projectId,
+          autoApprove: false
+        }
+      }) as CallToolResult;
+
+      verifyToolSuccessResponse(result);
+      await verifyProjectInFile(context.testFilePath, project.projectId, {
+        autoApprove: false
+      });
+    });
+
+    it('should set the ordering policy', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+
+      const result = await context.client.callTool({
+        name: "update_project",
+        arguments: {
+          projectId: project.projectId,
+          orderingPolicy: "priority"
+        }
+      }) as CallToolResult;
+
+      const responseData = verifyToolSuccessResponse<{ orderingPolicy: string; message: string }>(result);
+      expect(responseData.orderingPolicy).toBe("priority");
+      expect(responseData.message).toContain("Ordering policy");
+
+      await verifyProjectInFile(context.testFilePath, project.projectId, {
+        orderingPolicy: "priority"
+      });
+    });
+  });
+
+  describe('Error Cases', () => {
+    it('should return error when no setting is provided', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+
+      try {
+        await context.client.callTool({
+          name: "update_project",
+          arguments: {
+            projectId: project.projectId
+          }
+        });
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, "Missing required parameter: at least one of autoApprove or orderingPolicy must be provided");
+      }
+    });
+
+    it('should return error for an invalid ordering policy', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+
+      try {
+        await context.client.callTool({
+          name: "update_project",
+          arguments: {
+            projectId: project.projectId,
+            orderingPolicy: "random"
+          }
+        });
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, "Invalid orderingPolicy. Must be one of: sequence, priority, oldest_first");
+      }
+    });
+
+    it('should return error for non-existent project', async () => {
+      const result = await context.client.callTool({
+        name: "update_project",
+        arguments: {
+          projectId: "non_existent_project",
+          autoApprove: true
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Project non_existent_project not found/);
+    });
+
+    it('should return error for completed project', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Completed Project",
+        completed: true
+      });
+
+      const result = await context.client.callTool({
+        name: "update_project",
+        arguments: {
+          projectId: project.projectId,
+          autoApprove: true
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Project is already completed/);
+    });
+  });
+});
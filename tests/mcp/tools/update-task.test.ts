@@ -82,6 +82,72 @@ describe('update_task Tool', () => {
       });
     });
 
+    it('should auto-approve a task marked done in an auto-approve project', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Auto-approve Project",
+        autoApprove: true
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "in progress"
+      });
+
+      const result = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          status: "done",
+          completedDetails: "Task completed in test"
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      expect(result.isError).toBeFalsy();
+
+      await verifyTaskInFile(context.testFilePath, project.projectId, task.id, {
+        status: "done",
+        approved: true
+      });
+    });
+
+    it('should maintain lifecycle timestamps across status changes', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Timestamp Project",
+        autoApprove: true
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "not started"
+      });
+
+      const startResult = await context.client.callTool({
+        name: "update_task",
+        arguments: { projectId: project.projectId, taskId: task.id, status: "in progress" }
+      }) as CallToolResult;
+      verifyCallToolResult(startResult);
+      const started = JSON.parse((startResult.content[0] as { text: string }).text);
+      expect(typeof started.startedAt).toBe('string');
+      expect(started.updatedAt).toBe(started.startedAt);
+      expect(started.completedAt).toBeUndefined();
+
+      const doneResult = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          status: "done",
+          completedDetails: "Task completed in test"
+        }
+      }) as CallToolResult;
+      verifyCallToolResult(doneResult);
+      const done = JSON.parse((doneResult.content[0] as { text: string }).text);
+      expect(done.startedAt).toBe(started.startedAt);
+      expect(typeof done.completedAt).toBe('string');
+      expect(done.approvedAt).toBe(done.completedAt);
+      expect(Date.parse(done.completedAt)).toBeGreaterThanOrEqual(Date.parse(done.startedAt));
+    });
+
     it('should update task title and description', async () => {
       const project = await createTestProjectInFile(context.testFilePath, {
         initialPrompt: "Test Project"
@@ -109,6 +175,63 @@ describe('update_task Tool', () => {
         description: "Updated Description"
       });
     });
+
+    it('should update task priority', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Task"
+      });
+
+      const result = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          priority: "high"
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      expect(result.isError).toBeFalsy();
+
+      await verifyTaskInFile(context.testFilePath, project.projectId, task.id, {
+        priority: "high"
+      });
+    });
+
+    it('should reopen a done parent when one of its subtasks is reopened', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Subtask Project"
+      });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Parent",
+        status: "done",
+        completedDetails: "All parts done"
+      });
+      const subtask = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Subtask",
+        parentId: parent.id,
+        status: "done",
+        completedDetails: "Done"
+      });
+
+      const result = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: subtask.id,
+          status: "in progress"
+        }
+      }) as CallToolResult;
+
+      verifyCallToolResult(result);
+      expect(result.isError).toBeFalsy();
+      await verifyTaskInFile(context.testFilePath, project.projectId, parent.id, {
+        status: "in progress"
+      });
+    });
   });
 
   describe('Error Cases', () => {
@@ -135,6 +258,29 @@ describe('update_task Tool', () => {
       }
     });
 
+    it('should return error for invalid priority value', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task"
+      });
+
+      try {
+        await context.client.callTool({
+          name: "update_task",
+          arguments: {
+            projectId: project.projectId,
+            taskId: task.id,
+            priority: "urgent"
+          }
+        });
+        fail('Expected error was not thrown');
+      } catch (error) {
+        verifyProtocolError(error, -32602, "Invalid priority. Must be one of: critical, high, normal, low");
+      }
+    });
+
     it('should return error when marking task as done without completedDetails', async () => {
       const project = await createTestProjectInFile(context.testFilePath, {
         initialPrompt: "Test Project"
@@ -160,6 +306,33 @@ describe('update_task Tool', () => {
       }
     });
 
+    it('should return error for an invalid status transition', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const task = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Test Task",
+        status: "not started"
+      });
+
+      const result = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: task.id,
+          status: "done",
+          completedDetails: "Skipped straight to done"
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Invalid status transition for task task-\d+: "not started" -> "done"\. Allowed next states: "in progress"/);
+
+      await verifyTaskInFile(context.testFilePath, project.projectId, task.id, {
+        status: "not started",
+        completedDetails: ""
+      });
+    });
+
     it('should return error for non-existent project', async () => {
       const result = await context.client.callTool({
         name: "update_task",
@@ -212,5 +385,55 @@ describe('update_task Tool', () => {
 
       verifyToolExecutionError(result, /Cannot modify an approved task/);
     });
+
+    it('should return error when marking a parent done before its subtasks', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Subtask Project"
+      });
+      const parent = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Parent",
+        status: "in progress"
+      });
+      const subtask = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Subtask",
+        parentId: parent.id
+      });
+
+      const result = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: parent.id,
+          status: "done",
+          completedDetails: "Done early"
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, new RegExp(`Task ${parent.id} cannot be done before its subtasks: ${subtask.id}`));
+    });
+
+    it('should return error when dependencies would form a cycle', async () => {
+      const project = await createTestProjectInFile(context.testFilePath, {
+        initialPrompt: "Test Project"
+      });
+      const first = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "First Task"
+      });
+      const second = await createTestTaskInFile(context.testFilePath, project.projectId, {
+        title: "Second Task",
+        dependsOn: [first.id]
+      });
+
+      const result = await context.client.callTool({
+        name: "update_task",
+        arguments: {
+          projectId: project.projectId,
+          taskId: first.id,
+          dependsOn: [second.id]
+        }
+      }) as CallToolResult;
+
+      verifyToolExecutionError(result, /Task dependencies would form a cycle/);
+    });
   });
 }); 
\ No newline at end of file
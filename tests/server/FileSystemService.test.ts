@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import { spawn, spawnSync } from 'node:child_process';
+import path from 'path';
+import os from 'os';
+import { FileSystemService } from '../../src/server/FileSystemService.js';
+import { AppErrorCode } from '../../src/types/errors.js';
+import { TaskManagerFile } from '../../src/types/data.js';
+
+const initialData: TaskManagerFile = {
+  projects: [{ projectId: 'proj-1', initialPrompt: 'initial', projectPlan: 'initial', completed: false, tasks: [] }],
+};
+
+/**
+ * Returns the PID of a process that has already exited.
+ */
+function deadPid(): number {
+  const result = spawnSync(process.execPath, ['-e', '']);
+  return result.pid;
+}
+
+describe('FileSystemService', () => {
+  let tempDir: string;
+  let filePath: string;
+  let lockFilePath: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `taskqueue-fs-test-${Date.now()}`);
+    await fs.mkdir(tempDir, { recursive: true });
+    filePath = path.join(tempDir, 'tasks.json');
+    lockFilePath = `${filePath}.lock`;
+    await fs.writeFile(filePath, JSON.stringify(initialData));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record its owner in the lock file and remove it afterwards', async () => {
+    const service = new FileSystemService(filePath);
+    let lockContents = '';
+    await service.updateTasks(async () => {
+      lockContents = await fs.readFile(lockFilePath, 'utf-8');
+    });
+
+    expect(JSON.parse(lockContents)).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+    await expect(fs.access(lockFilePath)).rejects.toThrow();
+  });
+
+  it('should take over a lock left by a dead process', async () => {
+    await fs.writeFile(lockFilePath, JSON.stringify({
+      pid: deadPid(),
+      hostname: os.hostname(),
+      createdAt: new Date().toISOString(),
+    }));
+
+    const service = new FileSystemService(filePath, { lockTimeoutMs: 2000 });
+    await service.saveTasks({ projects: [] });
+
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({ schemaVersion: 2, projects: [] });
+    await expect(fs.access(lockFilePath)).rejects.toThrow();
+  });
+
+  it('should take over an old lock file without owner information', async () => {
+    await fs.writeFile(lockFilePath, '');
+    const oneMinuteAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockFilePath, oneMinuteAgo, oneMinuteAgo);
+
+    const service = new FileSystemService(filePath, { lockTimeoutMs: 2000, staleLockMs: 10_000 });
+    await expect(service.reloadTasks()).resolves.toEqual({ schemaVersion: 2, ...initialData });
+  });
+
+  it('should time out while a live process holds the lock', async () => {
+    const liveLock = JSON.stringify({ pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() });
+    await fs.writeFile(lockFilePath, liveLock);
+
+    const service = new FileSystemService(filePath, { lockTimeoutMs: 300 });
+    await expect(service.saveTasks({ projects: [] })).rejects.toMatchObject({ code: AppErrorCode.LockTimeout });
+
+    // Neither the lock nor the data were touched
+    expect(await fs.readFile(lockFilePath, 'utf-8')).toBe(liveLock);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual(initialData);
+  });
+
+  it('should leave a valid file and a recoverable lock when a writer is killed', async () => {
+    // A separate process keeps rewriting the file with a large payload until it is killed
+    const serviceModule = path.resolve('dist/src/server/FileSystemService.js');
+    const writerScript = `
+      import { FileSystemService } from ${JSON.stringify(serviceModule)};
+      const service = new FileSystemService(${JSON.stringify(filePath)});
+      const tasks = Array.from({ length: 5000 }, (_, i) => ({
+        id: 'task-' + (i + 1), title: 'Task ' + i, description: 'x'.repeat(200),
+        status: 'not started', approved: false, completedDetails: ''
+      }));
+      process.send('ready');
+      for (let round = 0; ; round++) {
+        await service.saveTasks({ projects: [{ projectId: 'proj-' + round, initialPrompt: 'writer', projectPlan: '', completed: false, tasks }] });
+      }
+    `;
+    const writer = spawn(process.execPath, ['--input-type=module', '-e', writerScript], {
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+    });
+    await new Promise<void>((resolve, reject) => {
+      writer.once('message', () => resolve());
+      writer.once('exit', (code) => reject(new Error(`Writer exited early with code ${code}`)));
+    });
+    await new Promise(resolve => setTimeout(resolve, 500));
+    const exited = new Promise(resolve => writer.once('exit', resolve));
+    writer.kill('SIGKILL');
+    await exited;
+
+    // Whatever the writer was doing, the tasks file is complete JSON
+    const contents = JSON.parse(await fs.readFile(filePath, 'utf-8')) as TaskManagerFile;
+    expect(contents.projects).toHaveLength(1);
+
+    // And the lock it may have left behind does not block the next writer
+    const service = new FileSystemService(filePath, { lockTimeoutMs: 2000 });
+    await service.saveTasks(initialData);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({ schemaVersion: 2, ...initialData });
+  }, 20000);
+
+  describe('schema versioning', () => {
+    const legacyData = {
+      projects: [{
+        projectId: 'proj-1',
+        initialPrompt: 'legacy',
+        completed: false,
+        tasks: [{ id: 'task-1', title: 'Old task', description: 'd', status: 'not started' }],
+      }],
+    };
+
+    it('should upgrade a legacy file on load and back it up on the next save', async () => {
+      await fs.writeFile(filePath, JSON.stringify(legacyData));
+      const service = new FileSystemService(filePath);
+
+      const loaded = await service.reloadTasks();
+      expect(loaded.schemaVersion).toBe(2);
+      expect(loaded.projects[0].projectPlan).toBe('legacy');
+      expect(loaded.projects[0].tasks[0]).toMatchObject({ approved: false, completedDetails: '' });
+      // Loading alone does not touch the file
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual(legacyData);
+
+      await service.saveTasks(loaded);
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).schemaVersion).toBe(2);
+      expect(JSON.parse(await fs.readFile(`${filePath}.v0.bak`, 'utf-8'))).toEqual(legacyData);
+    });
+
+    it('should upgrade version 1 files so older versions refuse the new history event types', async () => {
+      const versionOne = { schemaVersion: 1, ...initialData };
+      await fs.writeFile(filePath, JSON.stringify(versionOne));
+      const service = new FileSystemService(filePath);
+
+      const loaded = await service.reloadTasks();
+      const newEventTypes = ['claimed', 'lease_expired', 'reordered', 'moved', 'copied', 'decomposed'] as const;
+      loaded.projects[0].history = newEventTypes.map((type) => (
+        { taskId: 'task-1', type, timestamp: new Date().toISOString(), actor: 'agent' }
+      ));
+      await service.saveTasks(loaded);
+
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).schemaVersion).toBe(2);
+      expect(JSON.parse(await fs.readFile(`${filePath}.v1.bak`, 'utf-8'))).toEqual(versionOne);
+      const reloaded = await new FileSystemService(filePath).reloadTasks();
+      expect(reloaded.projects[0].history!.map((e) => e.type)).toEqual(newEventTypes);
+    });
+
+    it('should report the path of an invalid field', async () => {
+      const invalid = structuredClone(initialData) as any;
+      invalid.projects[0].tasks.push({ id: 'task-1', title: 't', description: 'd', status: 'blocked', approved: false, completedDetails: '' });
+      await fs.writeFile(filePath, JSON.stringify(invalid));
+
+      const service = new FileSystemService(filePath);
+      await expect(service.reloadTasks()).rejects.toMatchObject({
+        code: AppErrorCode.FileParseError,
+        message: expect.stringContaining('at projects[0].tasks[0].status:'),
+      });
+    });
+
+    it('should refuse files from a newer version', async () => {
+      await fs.writeFile(filePath, JSON.stringify({ schemaVersion: 99, projects: [] }));
+
+      const service = new FileSystemService(filePath);
+      await expect(service.reloadTasks()).rejects.toMatchObject({
+        code: AppErrorCode.FileParseError,
+        message: expect.stringContaining('has schema version 99'),
+      });
+    });
+
+    it('should only report migrations in a dry run', async () => {
+      await fs.writeFile(filePath, JSON.stringify(legacyData));
+      const service = new FileSystemService(filePath);
+
+      const report = await service.migrateTasksFile(true);
+      expect(report).toMatchObject({ fromVersion: 0, toVersion: 2, dryRun: true });
+      expect(report.applied).toHaveLength(2);
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual(legacyData);
+
+      const applied = await service.migrateTasksFile();
+      expect(applied.backupPath).toBe(`${filePath}.v0.bak`);
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).schemaVersion).toBe(2);
+      expect((await service.migrateTasksFile(true)).applied).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import path from 'path';
+import os from 'os';
+import Database from 'better-sqlite3';
+import { SqliteTaskStore } from '../../src/server/SqliteTaskStore.js';
+import { TaskManager } from '../../src/server/TaskManager.js';
+import { TaskManagerFile } from '../../src/types/data.js';
+
+const sampleData: TaskManagerFile = {
+  projects: [
+    {
+      projectId: 'proj-1',
+      initialPrompt: 'first',
+      projectPlan: 'plan',
+      completed: false,
+      autoApprove: true,
+      tasks: [
+        { id: 'task-1', title: 'A', description: 'a', status: 'done', approved: true, completedDetails: 'ok' },
+        { id: 'task-2', title: 'B', description: 'b', status: 'not started', approved: false, completedDetails: '', dependsOn: ['task-1'] },
+      ],
+      history: [
+        { taskId: 'task-1', type: 'created', timestamp: '2024-01-01T00:00:00.000Z', actor: 'agent', details: { title: 'A' } },
+        { taskId: 'task-1', type: 'approved', timestamp: '2024-01-02T00:00:00.000Z', actor: 'human' },
+      ],
+    },
+    {
+      projectId: 'proj-2',
+      initialPrompt: 'second',
+      projectPlan: 'second',
+      completed: true,
+      tasks: [],
+    },
+  ],
+};
+
+describe('SqliteTaskStore', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let store: SqliteTaskStore;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `taskqueue-sqlite-test-${Date.now()}`);
+    await fs.mkdir(tempDir, { recursive: true });
+    dbPath = path.join(tempDir, 'tasks.db');
+    store = new SqliteTaskStore(dbPath);
+  });
+
+  afterEach(async () => {
+    store.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip projects, tasks and history', async () => {
+    await store.save(sampleData);
+    store.close();
+
+    const reopened = new SqliteTaskStore(dbPath);
+    expect(await reopened.load()).toEqual(sampleData);
+    reopened.close();
+  });
+
+  it('should only rewrite the rows that changed', async () => {
+    await store.save(sampleData);
+    const rowIds = () => {
+      const db = new Database(dbPath, { readonly: true });
+      const rows = db.prepare('SELECT task_id, rowid FROM tasks').all() as Array<{ task_id: string; rowid: number }>;
+      const historyCount = (db.prepare('SELECT COUNT(*) AS count FROM history').get() as { count: number }).count;
+      db.close();
+      return { tasks: Object.fromEntries(rows.map((r) => [r.task_id, r.rowid])), historyCount };
+    };
+    const before = rowIds();
+
+    await store.update((data) => {
+      data.projects[0].tasks[1].status = 'in progress';
+      data.projects[0].history!.push({ taskId: 'task-2', type: 'status_changed', timestamp: '2024-01-03T00:00:00.000Z', actor: 'agent' });
+    });
+
+    const after = rowIds();
+    expect(after.tasks['task-1']).toBe(before.tasks['task-1']);
+    expect(after.tasks['task-2']).not.toBe(before.tasks['task-2']);
+    expect(after.historyCount).toBe(before.historyCount + 1);
+    expect((await store.load()).projects[0].tasks[1].status).toBe('in progress');
+  });
+
+  it('should roll back a failed update', async () => {
+    await store.save(sampleData);
+
+    await expect(store.update((data) => {
+      data.projects.splice(0, 1);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await store.load()).toEqual(sampleData);
+  });
+
+  it('should only read and write the projects an update is scoped to', async () => {
+    await store.save(sampleData);
+
+    await store.updateProjects(['proj-2'], (data, counters) => {
+      expect(data.projects.map((p) => p.projectId)).toEqual(['proj-2']);
+      expect(counters).toEqual({ maxProjectId: 2, maxTaskId: 2 });
+      data.projects[0].completed = false;
+      data.projects.push({ projectId: 'proj-3', initialPrompt: 'third', projectPlan: 'third', completed: false, tasks: [] });
+    });
+
+    const projects = (await store.load()).projects;
+    expect(projects.map((p) => [p.projectId, p.completed])).toEqual([
+      ['proj-1', false],
+      ['proj-2', false],
+      ['proj-3', false],
+    ]);
+    expect(projects[0]).toEqual(sampleData.projects[0]);
+  });
+
+  it('should list tasks filtered by project and state', async () => {
+    await store.save(sampleData);
+    const ids = (groups: Awaited<ReturnType<SqliteTaskStore['listTasks']>>) =>
+      groups.map((g) => [g.project.projectId, g.tasks.map((t) => t.id)]);
+
+    expect(ids(await store.listTasks(undefined, undefined))).toEqual([['proj-1', ['task-1', 'task-2']], ['proj-2', []]]);
+    expect(ids(await store.listTasks('proj-1', 'open'))).toEqual([['proj-1', ['task-2']]]);
+    expect(ids(await store.listTasks(undefined, 'completed'))).toEqual([['proj-1', ['task-1']], ['proj-2', []]]);
+    expect(ids(await store.listTasks('proj-2', 'open'))).toEqual([['proj-2', []]]);
+    expect(await store.listTasks('proj-9', undefined)).toEqual([]);
+  });
+
+  it('should never lower the ID counters', async () => {
+    const taskManager = new TaskManager(undefined, { store });
+    const { projectId } = await taskManager.createProject('Counters', [
+      { title: 'Task A', description: 'First' },
+      { title: 'Task B', description: 'Second' },
+    ]);
+    await taskManager.deleteTask(projectId, 'task-2');
+    await taskManager.deleteProject(projectId);
+
+    const { projectId: nextProjectId } = await taskManager.createProject('Next', [{ title: 'Task C', description: 'Third' }]);
+    expect(nextProjectId).toBe('proj-2');
+    const project = await taskManager.readProject(nextProjectId);
+    expect(project.tasks.map((t) => t.id)).toEqual(['task-3']);
+  });
+
+  it('should back a TaskManager', async () => {
+    const taskManager = new TaskManager(undefined, { store });
+    const { projectId } = await taskManager.createProject('SQLite project', [
+      { title: 'Task A', description: 'First' },
+      { title: 'Task B', description: 'Second', dependsOn: ['Task A'] },
+    ]);
+    await taskManager.updateTask(projectId, 'task-1', { status: 'in progress' });
+    await taskManager.deleteTask(projectId, 'task-2');
+
+    const otherStore = new SqliteTaskStore(dbPath);
+    const other = new TaskManager(undefined, { store: otherStore });
+    const project = await other.readProject(projectId);
+    expect(project.tasks.map((t) => [t.id, t.status])).toEqual([['task-1', 'in progress']]);
+    const openTasks = await other.listTasks(projectId, 'open');
+    expect(openTasks.tasks.map((t) => t.id)).toEqual(['task-1']);
+    await expect(other.listTasks('proj-9')).rejects.toMatchObject({ message: 'Project proj-9 not found' });
+    const history = await other.readTaskHistory(projectId);
+    expect(history.events.map((e) => e.type)).toEqual(['created', 'created', 'status_changed', 'deleted']);
+    otherStore.close();
+  });
+
+  it('should store the history carried over by moved and copied tasks', async () => {
+    const taskManager = new TaskManager(undefined, { store });
+    const { projectId: sourceId } = await taskManager.createProject('Source', [{ title: 'Task A', description: 'First' }]);
+    const { projectId: targetId } = await taskManager.createProject('Target', [
+      { title: 'Task B', description: 'Second' },
+      { title: 'Task C', description: 'Third' },
+    ]);
+    await taskManager.updateTask(targetId, 'task-2', { status: 'in progress' });
+
+    await taskManager.moveTask(sourceId, 'task-1', targetId);
+    await taskManager.copyTask(targetId, 'task-2', sourceId);
+
+    const otherStore = new SqliteTaskStore(dbPath);
+    const other = new TaskManager(undefined, { store: otherStore });
+    const eventsOf = async (projectId: string) =>
+      (await other.readTaskHistory(projectId)).events.map((e) => [e.taskId, e.type]);
+    expect(await eventsOf(targetId)).toEqual([
+      ['task-2', 'created'],
+      ['task-3', 'created'],
+      ['task-2', 'status_changed'],
+      ['task-1', 'created'],
+      ['task-1', 'moved'],
+      ['task-2', 'copied'],
+    ]);
+    expect(await eventsOf(sourceId)).toEqual([
+      ['task-1', 'created'],
+      ['task-1', 'moved'],
+      ['task-4', 'created'],
+      ['task-4', 'status_changed'],
+      ['task-4', 'copied'],
+    ]);
+    otherStore.close();
+  });
+});
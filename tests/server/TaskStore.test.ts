@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import path from 'path';
+import os from 'os';
+import { TaskManager } from '../../src/server/TaskManager.js';
+import { InMemoryTaskStore } from '../../src/server/InMemoryTaskStore.js';
+import { JsonFileTaskStore } from '../../src/server/JsonFileTaskStore.js';
+import { createTaskStore } from '../../src/server/TaskStore.js';
+import { AppError, AppErrorCode } from '../../src/types/errors.js';
+
+describe('Task stores', () => {
+  describe('InMemoryTaskStore', () => {
+    it('should not keep changes from a failed update', async () => {
+      const store = new InMemoryTaskStore();
+      await store.update((data) => {
+        data.projects.push({ projectId: 'proj-1', initialPrompt: 'p', projectPlan: 'p', tasks: [], completed: false });
+      });
+
+      await expect(store.update((data) => {
+        data.projects[0].completed = true;
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      const data = await store.load();
+      expect(data.projects).toHaveLength(1);
+      expect(data.projects[0].completed).toBe(false);
+    });
+
+    it('should run concurrent updates one at a time', async () => {
+      const store = new InMemoryTaskStore();
+      await Promise.all(Array.from({ length: 5 }, (_, i) => store.update(async (data) => {
+        const count = data.projects.length;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        data.projects.push({ projectId: `proj-${count + 1}`, initialPrompt: `${i}`, projectPlan: '', tasks: [], completed: false });
+      })));
+
+      const data = await store.load();
+      expect(data.projects.map((p) => p.projectId)).toEqual(['proj-1', 'proj-2', 'proj-3', 'proj-4', 'proj-5']);
+    });
+  });
+
+  describe('JsonFileTaskStore', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      tempDir = path.join(os.tmpdir(), `taskqueue-store-test-${Date.now()}`);
+      await fs.mkdir(tempDir, { recursive: true });
+      filePath = path.join(tempDir, 'tasks.json');
+      await fs.writeFile(filePath, JSON.stringify({ projects: [] }));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write updates to the file and skip failed ones', async () => {
+      const store = new JsonFileTaskStore(filePath);
+      await store.update((data) => {
+        data.projects.push({ projectId: 'proj-1', initialPrompt: 'p', projectPlan: 'p', tasks: [], completed: false });
+      });
+      await expect(store.update((data) => {
+        data.projects.length = 0;
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      const onDisk = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      expect(onDisk.projects).toHaveLength(1);
+      await expect(fs.access(`${filePath}.lock`)).rejects.toThrow();
+    });
+
+    it('should report changes written by another store', async () => {
+      const store = new JsonFileTaskStore(filePath);
+      let changes = 0;
+      const unwatch = store.watch(() => changes++);
+      try {
+        // Atomic writes replace the file, so a second write must still be seen
+        await new JsonFileTaskStore(filePath).save({ projects: [] });
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const afterFirst = changes;
+        await new JsonFileTaskStore(filePath).save({ projects: [] });
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        expect(afterFirst).toBeGreaterThan(0);
+        expect(changes).toBeGreaterThan(afterFirst);
+      } finally {
+        unwatch();
+      }
+    });
+  });
+
+  describe('createTaskStore', () => {
+    it('should reject an unknown store type', () => {
+      expect(() => createTaskStore('postgres', '/tmp/tasks.json')).toThrow(
+        new AppError('Unknown task store: postgres. Must be one of: json, sqlite, memory', AppErrorCode.ConfigurationError)
+      );
+    });
+  });
+
+  describe('TaskManager with an injected store', () => {
+    it('should persist changes only to the injected store', async () => {
+      const store = new InMemoryTaskStore();
+      const taskManager = new TaskManager(undefined, { store });
+
+      const created = await taskManager.createProject('Embedded project', [
+        { title: 'Task A', description: 'First' },
+      ]);
+      expect(created.projectId).toBe('proj-1');
+
+      const data = await store.load();
+      expect(data.projects[0].tasks[0].title).toBe('Task A');
+
+      // A second manager sharing the store sees the same data and continues the ID sequence
+      const other = new TaskManager(undefined, { store });
+      const second = await other.createProject('Second project', [{ title: 'Task B', description: 'Second' }]);
+      expect(second.projectId).toBe('proj-2');
+      expect(second.tasks[0].id).toBe('task-2');
+    });
+
+    it('should leave the store untouched when a mutation fails', async () => {
+      const store = new InMemoryTaskStore();
+      const taskManager = new TaskManager(undefined, { store });
+      const { projectId } = await taskManager.createProject('Project', [
+        { title: 'Task A', description: 'First' },
+      ]);
+
+      await expect(taskManager.updateTask(projectId, 'task-1', { title: 'Renamed', status: 'done' }))
+        .rejects.toMatchObject({ code: AppErrorCode.InvalidStatusTransition });
+
+      const data = await store.load();
+      expect(data.projects[0].tasks[0].title).toBe('Task A');
+    });
+
+    it('should notify watchers after saving a change', async () => {
+      const taskManager = new TaskManager(undefined, { store: new InMemoryTaskStore() });
+      let changes = 0;
+      const unwatch = taskManager.watch(() => changes++);
+
+      await taskManager.createProject('Project', [{ title: 'Task A', description: 'First' }]);
+      await expect(taskManager.deleteProject('proj-404')).rejects.toThrow();
+      expect(changes).toBe(1);
+
+      unwatch();
+      await taskManager.createProject('Another', [{ title: 'Task B', description: 'Second' }]);
+      expect(changes).toBe(1);
+    });
+
+    it('should delete a project', async () => {
+      const store = new InMemoryTaskStore();
+      const taskManager = new TaskManager(undefined, { store });
+      const { projectId } = await taskManager.createProject('Project', [
+        { title: 'Task A', description: 'First' },
+      ]);
+
+      const result = await taskManager.deleteProject(projectId);
+      expect(result.status).toBe('project_deleted');
+      expect((await store.load()).projects).toHaveLength(0);
+      await expect(taskManager.deleteProject(projectId)).rejects.toMatchObject({ code: AppErrorCode.ProjectNotFound });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import path from 'path';
+import os from 'os';
+import { authenticate, canUseTool, canUseToolArguments, isToolAllowed, loadAuthConfig, AuthConfig } from '../../src/server/auth.js';
+import { ALL_TOOLS } from '../../src/server/tools.js';
+import { AppErrorCode } from '../../src/types/errors.js';
+
+describe('auth', () => {
+  describe('isToolAllowed', () => {
+    it('should keep approval tools away from workers', () => {
+      for (const tool of ['approve_task', 'reject_task', 'finalize_project']) {
+        expect(isToolAllowed('worker', tool)).toBe(false);
+        expect(isToolAllowed('reviewer', tool)).toBe(true);
+      }
+      expect(isToolAllowed('reviewer', 'update_task')).toBe(false);
+    });
+
+    it('should only allow reads for read-only tokens and everything for admins', () => {
+      expect(isToolAllowed('read-only', 'read_project')).toBe(true);
+      expect(isToolAllowed('read-only', 'create_task')).toBe(false);
+      for (const tool of ALL_TOOLS) {
+        expect(isToolAllowed('admin', tool.name)).toBe(true);
+      }
+    });
+  });
+
+  describe('canUseTool', () => {
+    it('should hide only the review tools in agent mode', () => {
+      expect(canUseTool({}, 'approve_task')).toBe(true);
+      expect(canUseTool({ agentMode: true }, 'approve_task')).toBe(false);
+      expect(canUseTool({ agentMode: true }, 'finalize_project')).toBe(false);
+      expect(canUseTool({ agentMode: true }, 'delete_project')).toBe(true);
+    });
+
+    it('should let the role decide when there is one', () => {
+      expect(canUseTool({ role: 'reviewer', agentMode: true }, 'approve_task')).toBe(true);
+      expect(canUseTool({ role: 'worker' }, 'approve_task')).toBe(false);
+    });
+  });
+
+  describe('canUseToolArguments', () => {
+    it('should keep autoApprove away from callers who may not approve', () => {
+      for (const tool of ['create_project', 'update_project']) {
+        expect(canUseToolArguments({ agentMode: true }, tool, { autoApprove: true })).toBe(false);
+        expect(canUseToolArguments({ role: 'worker' }, tool, { autoApprove: true })).toBe(false);
+        expect(canUseToolArguments({ role: 'admin' }, tool, { autoApprove: true })).toBe(true);
+        expect(canUseToolArguments({}, tool, { autoApprove: true })).toBe(true);
+      }
+      expect(canUseToolArguments({ role: 'worker' }, 'create_project', { autoApprove: false })).toBe(true);
+      expect(canUseToolArguments({ agentMode: true }, 'update_project', { orderingPolicy: 'strict' })).toBe(true);
+    });
+  });
+
+  describe('authenticate', () => {
+    const config: AuthConfig = {
+      tokens: [
+        { name: 'agent', token: 'worker-token-0123456789', role: 'worker' },
+        { name: 'lead', token: 'admin-token-0123456789', role: 'admin' },
+      ],
+    };
+
+    it('should find the token in a bearer header', () => {
+      expect(authenticate(config, 'Bearer admin-token-0123456789')).toMatchObject({ name: 'lead', role: 'admin' });
+      expect(authenticate(config, 'bearer worker-token-0123456789')?.name).toBe('agent');
+    });
+
+    it('should reject missing, malformed and unknown tokens', () => {
+      expect(authenticate(config, undefined)).toBeUndefined();
+      expect(authenticate(config, 'worker-token-0123456789')).toBeUndefined();
+      expect(authenticate(config, 'Bearer worker-token-012345678')).toBeUndefined();
+    });
+  });
+
+  describe('loadAuthConfig', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      tempDir = path.join(os.tmpdir(), `taskqueue-auth-test-${Date.now()}`);
+      await fs.mkdir(tempDir, { recursive: true });
+      filePath = path.join(tempDir, 'auth.json');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load a valid config', async () => {
+      await fs.writeFile(filePath, JSON.stringify({ tokens: [{ name: 'ci', token: 'ci-token-0123456789', role: 'read-only' }] }));
+      await expect(loadAuthConfig(filePath)).resolves.toEqual({
+        tokens: [{ name: 'ci', token: 'ci-token-0123456789', role: 'read-only' }],
+      });
+    });
+
+    it('should name the invalid field', async () => {
+      await fs.writeFile(filePath, JSON.stringify({ tokens: [{ name: 'ci', token: 'ci-token-0123456789', role: 'owner' }] }));
+      await expect(loadAuthConfig(filePath)).rejects.toMatchObject({
+        code: AppErrorCode.ConfigurationError,
+        message: expect.stringContaining('at tokens.0.role'),
+      });
+    });
+
+    it('should reject short and duplicate tokens', async () => {
+      await fs.writeFile(filePath, JSON.stringify({ tokens: [{ name: 'ci', token: 'short', role: 'worker' }] }));
+      await expect(loadAuthConfig(filePath)).rejects.toThrow('at least 16 characters');
+
+      const token = { name: 'ci', token: 'ci-token-0123456789', role: 'worker' };
+      await fs.writeFile(filePath, JSON.stringify({ tokens: [token, { ...token, name: 'other' }] }));
+      await expect(loadAuthConfig(filePath)).rejects.toThrow('tokens must be unique');
+    });
+  });
+});
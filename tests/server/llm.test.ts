@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { LanguageModel } from 'ai';
+import { getProviderNames, loadLanguageModel, registerProvider } from '../../src/server/llm.js';
+import { listTools } from '../../src/server/tools.js';
+import { AppErrorCode } from '../../src/types/errors.js';
+
+describe('llm', () => {
+  describe('provider registry', () => {
+    it('should register the built-in providers', () => {
+      expect(getProviderNames()).toEqual(['openai', 'anthropic', 'google', 'deepseek', 'openai-compatible']);
+    });
+
+    it('should load models from providers registered later', async () => {
+      const model = { modelId: 'test-model' } as unknown as LanguageModel;
+      registerProvider('test-provider', async (modelId) => ({ ...model, modelId }) as LanguageModel);
+
+      await expect(loadLanguageModel('test-provider', 'other-model')).resolves.toMatchObject({ modelId: 'other-model' });
+
+      // Tool schemas are built when tools are listed, so they offer the new provider too
+      for (const name of ['generate_project_plan', 'refine_project_plan', 'decompose_task']) {
+        const tool = listTools().find((t) => t.name === name)!;
+        const provider = (tool.inputSchema.properties as Record<string, { enum?: string[] }>).provider;
+        expect(provider.enum).toContain('test-provider');
+      }
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(loadLanguageModel('unknown-provider', 'model')).rejects.toMatchObject({
+        code: AppErrorCode.InvalidProvider,
+        message: 'Invalid provider: unknown-provider',
+      });
+    });
+  });
+});